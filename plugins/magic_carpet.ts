@@ -15,17 +15,21 @@ type CarpetPos = {
 };
 
 function sendCarpetUpdate(player: Player, carpet: CarpetPos, enabled: boolean) {
+	const blocks: [number, number, number, number][] = [];
+
 	for (let x = carpet.start.x; x <= carpet.end.x; x++) {
 		for (let z = carpet.start.z; z <= carpet.end.z; z++) {
 			const block = player.world.getBlock(x, carpet.center.y, z);
 
 			if (block && !block.solid && enabled) {
-				player._connectionHandler.setBlock(x, carpet.center.y, z, blockIds.glass);
+				blocks.push([x, carpet.center.y, z, blockIds.glass]);
 			} else if (block) {
-				player._connectionHandler.setBlock(x, carpet.center.y, z, block.numId);
+				blocks.push([x, carpet.center.y, z, block.numId]);
 			}
 		}
 	}
+
+	player._connectionHandler.setBlocks(blocks);
 }
 
 export const init = (server: Server) => {
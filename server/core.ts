@@ -2,7 +2,7 @@ export * from './core/server.ts';
 export * from './core/types.ts';
 export * from './core/player.ts';
 export * as EventType from './core/events.ts';
-export { Block } from './core/world/blocks.ts';
+export { Block, BlockRegistry } from './core/world/blocks.ts';
 export * from './core/world/world.ts';
 
 export * as Vec from './libs/vec.ts';
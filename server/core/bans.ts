@@ -0,0 +1,146 @@
+import type { Server } from './server.ts';
+import { formatDuration } from './commands.ts';
+import type { Holder, Nullable } from './types.ts';
+
+export interface BanEntry {
+	/**
+	 * Username of punished player, if known
+	 */
+	username?: string;
+	reason: string;
+	issuer: string;
+	time: number;
+	/**
+	 * Time (in milliseconds) when it expires, null for permanent ones
+	 */
+	expires: Nullable<number>;
+}
+
+export interface BanListData {
+	players: Holder<BanEntry>;
+	ips: Holder<BanEntry>;
+	mutes: Holder<BanEntry>;
+}
+
+/**
+ * Stores player bans, ip bans and mutes
+ */
+export class BanList {
+	readonly players: Map<string, BanEntry>;
+	readonly ips: Map<string, BanEntry>;
+	readonly mutes: Map<string, BanEntry>;
+
+	readonly _server: Server;
+
+	constructor(server: Server, data?: Partial<BanListData>) {
+		this._server = server;
+		this.players = new Map(Object.entries(data?.players ?? {}));
+		this.ips = new Map(Object.entries(data?.ips ?? {}));
+		this.mutes = new Map(Object.entries(data?.mutes ?? {}));
+	}
+
+	/**
+	 * Bans player
+	 *
+	 * @param uuid Player's uuid
+	 * @param entry Ban information
+	 */
+	ban(uuid: string, entry: BanEntry) {
+		this.players.set(uuid, entry);
+		this.save();
+	}
+
+	/**
+	 * Bans ip address
+	 *
+	 * @param ip Ip address
+	 * @param entry Ban information
+	 */
+	banIp(ip: string, entry: BanEntry) {
+		this.ips.set(ip, entry);
+		this.save();
+	}
+
+	/**
+	 * Mutes player
+	 *
+	 * @param uuid Player's uuid
+	 * @param entry Mute information
+	 */
+	mute(uuid: string, entry: BanEntry) {
+		this.mutes.set(uuid, entry);
+		this.save();
+	}
+
+	/**
+	 * Removes ban of player or ip address
+	 *
+	 * @param target Player's uuid or ip address
+	 * @returns True if it was banned
+	 */
+	unban(target: string): boolean {
+		const out = this.players.delete(target) || this.ips.delete(target);
+		this.save();
+		return out;
+	}
+
+	/**
+	 * Removes mute of player
+	 *
+	 * @param uuid Player's uuid
+	 * @returns True if player was muted
+	 */
+	unmute(uuid: string): boolean {
+		const out = this.mutes.delete(uuid);
+		this.save();
+		return out;
+	}
+
+	/**
+	 * Returns active ban of player or ip address
+	 *
+	 * @param uuid Player's uuid
+	 * @param ip Player's ip address (optional)
+	 */
+	getBan(uuid: string, ip?: string): Nullable<BanEntry> {
+		return this.getActive(this.players, uuid) ?? (ip ? this.getActive(this.ips, ip) : null);
+	}
+
+	/**
+	 * Returns active mute of player
+	 *
+	 * @param uuid Player's uuid
+	 */
+	getMute(uuid: string): Nullable<BanEntry> {
+		return this.getActive(this.mutes, uuid);
+	}
+
+	/**
+	 * Returns message shown to banned player
+	 */
+	getBanMessage(entry: BanEntry): string {
+		return entry.expires == null
+			? this._server.getMessage('banned', { reason: entry.reason })
+			: this._server.getMessage('tempBanned', { reason: entry.reason, time: formatDuration(entry.expires - Date.now()) });
+	}
+
+	save() {
+		this._server.files.saveConfig('bans', <BanListData>{
+			players: Object.fromEntries(this.players),
+			ips: Object.fromEntries(this.ips),
+			mutes: Object.fromEntries(this.mutes),
+		});
+	}
+
+	protected getActive(map: Map<string, BanEntry>, key: string): Nullable<BanEntry> {
+		const entry = map.get(key);
+
+		if (entry && entry.expires != null && entry.expires <= Date.now()) {
+			map.delete(key);
+			this.save();
+			return null;
+		}
+
+		return entry ?? null;
+	}
+}
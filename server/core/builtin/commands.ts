@@ -1,9 +1,22 @@
-import { word, greedyString, IntegerArgumentType } from '../../libs/brigadier/index.ts';
-import { CommandInfo, literal, argument, KeyedArgumentType, TriStateArgumentType, XYZFloatArgumentType, BlockPosArgumentType } from '../commands.ts';
+import { word, greedyString, IntegerArgumentType, StringReader } from '../../libs/brigadier/index.ts';
+import {
+	CommandInfo,
+	CommandSource,
+	literal,
+	argument,
+	KeyedArgumentType,
+	TriStateArgumentType,
+	XYZFloatArgumentType,
+	BlockPosArgumentType,
+	DurationArgumentType,
+	formatDuration,
+} from '../commands.ts';
 import { Player, VirtualPlayerHolder } from '../player.ts';
 import { Group, Server } from '../server.ts';
-import { TriState, XYZ } from '../types.ts';
-import { PhysicsLevel, World, WorldGenerator } from '../world/world.ts';
+import { BanEntry } from '../bans.ts';
+import { isOwnKey, Nullable, TriState, XYZ } from '../types.ts';
+import { defaultWorldSettings, PhysicsLevel, World, WorldGenerator, WorldSettings } from '../world/world.ts';
+import { defaultRegionFlags, isRegionFlag, Region } from '../world/regions.ts';
 
 export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 	server.addCommand(
@@ -275,6 +288,405 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 		'List all loaded maps'
 	);
 
+	server.addCommand(
+		literal('channel')
+			.requires((ctx) => ctx.checkPermission('commands.channel').get(true))
+			.executes((_ctx, src) => {
+				const player = src.player();
+				const channels = Object.entries(server.config.chatChannels)
+					.filter(([, c]) => server.canUseChatChannel(player, c))
+					.map(([name]) => (name == player.chatChannel ? `&6${name}` : name));
+
+				src.send(`&aAvailable channels: &f${channels.join('&7,&f ')}`);
+			})
+			.then(
+				argument('channel', word())
+					.executes((ctx, src) => {
+						const player = src.player();
+						const name = ctx.getTyped<string>('channel');
+						const channel = server.getChatChannel(name);
+
+						if (!channel || !server.canUseChatChannel(player, channel)) {
+							src.sendError(`You can't use chat channel ${name}!`);
+							return;
+						}
+
+						player.chatChannel = name;
+						src.send(`&aSwitched to chat channel &6${name}&a.`);
+					})
+					.then(
+						argument('message', greedyString()).executes((ctx, src) => {
+							src.player().chat(ctx.getTyped<string>('message'), ctx.getTyped<string>('channel'));
+						})
+					)
+			),
+		'Changes chat channel',
+		[
+			{
+				title: '/channel command',
+				number: 0,
+				lines: [
+					'Allows to chat only with some players',
+					'&6/channel &7- Lists available channels',
+					'&6/channel <channel> &7- Switches your chat channel',
+					'&6/channel <channel> <message> &7- Sends single message to channel',
+				],
+			},
+		]
+	);
+
+	server.addCommand(
+		literal('msg')
+			.requires((ctx) => ctx.checkPermission('commands.msg').get(true))
+			.then(
+				argument('player', KeyedArgumentType.onlinePlayer(server)).then(
+					argument('message', greedyString()).executes((ctx, src) => {
+						src.player().sendPrivateMessage(ctx.getTyped<Player>('player'), ctx.getTyped<string>('message'));
+					})
+				)
+			),
+		'Sends private message to player',
+		[
+			{
+				title: '/msg command',
+				number: 0,
+				lines: ['Sends private message to player', 'Usage: &6/msg <player> <message>'],
+			},
+		]
+	);
+
+	server.addCommand(
+		literal('r')
+			.requires((ctx) => ctx.checkPermission('commands.msg').get(true))
+			.then(
+				argument('message', greedyString()).executes((ctx, src) => {
+					const player = src.player();
+					const target = player.lastPrivateMessage ? server.players.get(player.lastPrivateMessage) : null;
+
+					if (!target) {
+						src.sendError('There is nobody to reply to!');
+						return;
+					}
+
+					player.sendPrivateMessage(target, ctx.getTyped<string>('message'));
+				})
+			),
+		'Replies to last private message'
+	);
+
+	server.addCommand(
+		literal('ignore')
+			.requires((ctx) => ctx.checkPermission('commands.ignore').get(true))
+			.executes((_ctx, src) => {
+				const ignored = src.player().ignored.map((uuid) => server.files.getPlayer(uuid)?.username ?? uuid);
+				src.send(ignored.length > 0 ? `&aIgnored players: &f${ignored.join('&7,&f ')}` : "&aYou aren't ignoring anyone.");
+			})
+			.then(
+				argument('player', word()).executes((ctx, src) => {
+					const player = src.player();
+					const username = ctx.getTyped<string>('player');
+					const uuid = server.getPlayerIdFromName(username);
+
+					if (!uuid) {
+						src.sendError(`Player ${username} never joined this server!`);
+						return;
+					} else if (uuid == player.uuid) {
+						src.sendError("You can't ignore yourself!");
+						return;
+					}
+
+					const index = player.ignored.indexOf(uuid);
+
+					if (index == -1) {
+						player.ignored.push(uuid);
+						src.send(`&aYou are now ignoring &f${username}&a.`);
+					} else {
+						player.ignored.splice(index, 1);
+						src.send(`&aYou are no longer ignoring &f${username}&a.`);
+					}
+				})
+			),
+		'Hides messages from player',
+		[
+			{
+				title: '/ignore command',
+				number: 0,
+				lines: ['Hides chat and private messages from player', '&6/ignore &7- Lists ignored players', '&6/ignore <player> &7- Toggles ignoring player'],
+			},
+		]
+	);
+
+	server.addCommand(
+		literal('kick')
+			.requires((ctx) => ctx.checkPermission('commands.kick').get(false))
+			.then(
+				argument('player', KeyedArgumentType.onlinePlayer(server))
+					.executes((ctx, src) => server.executeCommand(ctx.getInput() + ' Kicked by an operator', src))
+					.then(
+						argument('reason', greedyString()).executes((ctx, src) => {
+							const player = ctx.getTyped<Player>('player');
+							const reason = ctx.getTyped<string>('reason');
+							player.disconnect(server.getMessage('kicked', { reason }));
+							src.send(`&aKicked &f${player.username}&a: &7${reason}`);
+						})
+					)
+			),
+		'Disconnects player from server'
+	);
+
+	for (const temporary of [false, true]) {
+		const name = temporary ? 'tempban' : 'ban';
+
+		const ban = (src: CommandSource, username: string, reason: string, time: Nullable<number>) => {
+			const uuid = server.getPlayerIdFromName(username);
+
+			if (!uuid) {
+				src.sendError(`Player ${username} never joined this server!`);
+				return;
+			}
+
+			const entry: BanEntry = {
+				username,
+				reason,
+				issuer: src.playerOrNull()?.username ?? 'Console',
+				time: Date.now(),
+				expires: time != null ? Date.now() + time : null,
+			};
+
+			server.bans.ban(uuid, entry);
+			server.players.get(uuid)?.disconnect(server.bans.getBanMessage(entry));
+			src.send(`&aBanned &f${username}&a${time != null ? ` for &6${formatDuration(time)}&a` : ''}: &7${reason}`);
+		};
+
+		const reason = argument('reason', greedyString()).executes((ctx, src) =>
+			ban(src, ctx.getTyped<string>('player'), ctx.getTyped<string>('reason'), temporary ? ctx.getTyped<number>('time') : null)
+		);
+
+		const player = argument('player', word());
+
+		if (temporary) {
+			player.then(
+				argument('time', new DurationArgumentType())
+					.executes((ctx, src) => ban(src, ctx.getTyped<string>('player'), 'Banned by an operator', ctx.getTyped<number>('time')))
+					.then(reason)
+			);
+		} else {
+			player.executes((ctx, src) => ban(src, ctx.getTyped<string>('player'), 'Banned by an operator', null)).then(reason);
+		}
+
+		server.addCommand(
+			literal(name)
+				.requires((ctx) => ctx.checkPermission('commands.' + name).get(false))
+				.then(player),
+			temporary ? 'Bans player for some time' : 'Bans player',
+			[
+				{
+					title: `/${name} command`,
+					number: 0,
+					lines: temporary
+						? ['Bans player for some time', 'Usage: &6/tempban <player> <time> [<reason>]', '&7Time uses units s, m, h, d, w, for example &61d12h']
+						: ['Bans player permanently', 'Usage: &6/ban <player> [<reason>]'],
+				},
+			]
+		);
+	}
+
+	server.addCommand(
+		literal('banip')
+			.requires((ctx) => ctx.checkPermission('commands.banip').get(false))
+			.then(
+				argument('target', word())
+					.executes((ctx, src) => server.executeCommand(ctx.getInput() + ' Banned by an operator', src))
+					.then(
+						argument('reason', greedyString()).executes((ctx, src) => {
+							const target = ctx.getTyped<string>('target');
+							const reason = ctx.getTyped<string>('reason');
+							const uuid = server.getPlayerIdFromName(target);
+							const ip = uuid ? server.players.get(uuid)?.ip ?? server.files.getPlayer(uuid)?.ip : target;
+
+							if (!uuid && !isIpAddress(target)) {
+								src.sendError(`Player ${target} never joined this server!`);
+								return;
+							} else if (!ip) {
+								src.sendError(`Couldn't find ip of ${target}!`);
+								return;
+							}
+
+							const entry: BanEntry = { reason, issuer: src.playerOrNull()?.username ?? 'Console', time: Date.now(), expires: null };
+							server.bans.banIp(ip, entry);
+
+							for (const player of server.players.values()) {
+								if (player.ip == ip) {
+									player.disconnect(server.bans.getBanMessage(entry));
+								}
+							}
+
+							src.send(`&aBanned ip of &f${target}&a: &7${reason}`);
+						})
+					)
+			),
+		'Bans ip address of player',
+		[
+			{
+				title: '/banip command',
+				number: 0,
+				lines: ['Bans ip address of player', 'Usage: &6/banip <player or ip> [<reason>]'],
+			},
+		]
+	);
+
+	server.addCommand(
+		literal('unban')
+			.requires((ctx) => ctx.checkPermission('commands.unban').get(false))
+			.then(
+				argument('target', word()).executes((ctx, src) => {
+					const target = ctx.getTyped<string>('target');
+
+					if (server.bans.unban(server.getPlayerIdFromName(target) ?? target)) {
+						src.send(`&aUnbanned &f${target}&a.`);
+					} else {
+						src.sendError(`${target} isn't banned!`);
+					}
+				})
+			),
+		'Removes ban of player or ip address'
+	);
+
+	for (const temporary of [false, true]) {
+		const name = temporary ? 'tempmute' : 'mute';
+
+		const mute = (src: CommandSource, username: string, reason: string, time: Nullable<number>) => {
+			const uuid = server.getPlayerIdFromName(username);
+
+			if (!uuid) {
+				src.sendError(`Player ${username} never joined this server!`);
+				return;
+			}
+
+			server.bans.mute(uuid, {
+				username,
+				reason,
+				issuer: src.playerOrNull()?.username ?? 'Console',
+				time: Date.now(),
+				expires: time != null ? Date.now() + time : null,
+			});
+
+			server.players.get(uuid)?.sendMessage(server.getMessage('muted', { reason }));
+			src.send(`&aMuted &f${username}&a${time != null ? ` for &6${formatDuration(time)}&a` : ''}: &7${reason}`);
+		};
+
+		const reason = argument('reason', greedyString()).executes((ctx, src) =>
+			mute(src, ctx.getTyped<string>('player'), ctx.getTyped<string>('reason'), temporary ? ctx.getTyped<number>('time') : null)
+		);
+
+		const player = argument('player', word());
+
+		if (temporary) {
+			player.then(
+				argument('time', new DurationArgumentType())
+					.executes((ctx, src) => mute(src, ctx.getTyped<string>('player'), 'Muted by an operator', ctx.getTyped<number>('time')))
+					.then(reason)
+			);
+		} else {
+			player.executes((ctx, src) => mute(src, ctx.getTyped<string>('player'), 'Muted by an operator', null)).then(reason);
+		}
+
+		server.addCommand(
+			literal(name)
+				.requires((ctx) => ctx.checkPermission('commands.mute').get(false))
+				.then(player),
+			temporary ? 'Mutes player for some time' : 'Mutes player'
+		);
+	}
+
+	server.addCommand(
+		literal('unmute')
+			.requires((ctx) => ctx.checkPermission('commands.mute').get(false))
+			.then(
+				argument('player', word()).executes((ctx, src) => {
+					const username = ctx.getTyped<string>('player');
+
+					if (server.bans.unmute(server.getPlayerIdFromName(username) ?? username)) {
+						src.send(`&aUnmuted &f${username}&a.`);
+					} else {
+						src.sendError(`${username} isn't muted!`);
+					}
+				})
+			),
+		'Removes mute of player'
+	);
+
+	server.addCommand(
+		literal('whitelist')
+			.requires((ctx) => ctx.checkPermission('commands.whitelist').get(false))
+			.then(
+				literal('add').then(
+					argument('player', word()).executes((ctx, src) => {
+						const username = ctx.getTyped<string>('player');
+						server.addToWhitelist(username);
+						src.send(`&aAdded &f${username}&a to whitelist.`);
+					})
+				)
+			)
+			.then(
+				literal('remove').then(
+					argument('player', word()).executes((ctx, src) => {
+						const username = ctx.getTyped<string>('player');
+
+						if (server.removeFromWhitelist(username)) {
+							src.send(`&aRemoved &f${username}&a from whitelist.`);
+						} else {
+							src.sendError(`${username} isn't whitelisted!`);
+						}
+					})
+				)
+			)
+			.then(
+				literal('list').executes((_ctx, src) => {
+					src.send(`&aWhitelisted players (${server.config.whitelist ? '&aenabled' : '&cdisabled'}&a):`);
+					let temp = ' ';
+					server.whitelist.forEach((_uuid, name) => {
+						temp == ' ' ? (temp += name) : (temp = [temp, name].join('&7,&f '));
+
+						if (temp.length > 50) {
+							src.send(temp);
+							temp = ' ';
+						}
+					});
+
+					temp != ' ' ? src.send(temp) : null;
+				})
+			)
+			.then(
+				literal('on').executes((_ctx, src) => {
+					server.config.whitelist = true;
+					server.files.saveConfig('config', server.config);
+					src.send('&aWhitelist enabled!');
+				})
+			)
+			.then(
+				literal('off').executes((_ctx, src) => {
+					server.config.whitelist = false;
+					server.files.saveConfig('config', server.config);
+					src.send('&aWhitelist disabled!');
+				})
+			),
+		'Manages whitelist',
+		[
+			{
+				title: '/whitelist command',
+				number: 0,
+				lines: [
+					'Allows to limit who can join server',
+					'&6/whitelist add <player> &7- Adds player to whitelist',
+					'&6/whitelist remove <player> &7- Removes player from whitelist',
+					'&6/whitelist list &7- Lists whitelisted players',
+					'&6/whitelist on/off &7- Enables or disables whitelist',
+				],
+			},
+		]
+	);
+
 	server.addCommand(
 		literal('perms')
 			.requires((x) => x.checkPermission('commands.perms').get(false))
@@ -292,14 +704,28 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 										player.finish();
 									})
 									.then(
-										argument('value', new TriStateArgumentType()).executes((ctx, src) => {
-											const perm = ctx.getTyped<string>('permission');
-											const player = ctx.getTyped<VirtualPlayerHolder>('player');
-											const value = ctx.getTyped<TriState>('value');
-											player.setPermission(perm, value);
-											src.send(`&aChanged permission &6${perm}&a of &f${player.getName()}&a to &6${value.name}&a.`);
-											player.finish();
-										})
+										argument('value', new TriStateArgumentType())
+											.executes((ctx, src) => {
+												const perm = ctx.getTyped<string>('permission');
+												const player = ctx.getTyped<VirtualPlayerHolder>('player');
+												const value = ctx.getTyped<TriState>('value');
+												player.setPermission(perm, value);
+												src.send(`&aChanged permission &6${perm}&a of &f${player.getName()}&a to &6${value.name}&a.`);
+												player.finish();
+											})
+											.then(
+												argument('duration', new DurationArgumentType()).executes((ctx, src) => {
+													const perm = ctx.getTyped<string>('permission');
+													const player = ctx.getTyped<VirtualPlayerHolder>('player');
+													const value = ctx.getTyped<TriState>('value');
+													const duration = ctx.getTyped<number>('duration');
+													player.setPermission(perm, value, duration);
+													src.send(
+														`&aChanged permission &6${perm}&a of &f${player.getName()}&a to &6${value.name}&a for &6${formatDuration(duration)}&a.`
+													);
+													player.finish();
+												})
+											)
 									)
 							)
 						)
@@ -316,13 +742,24 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 						)
 						.then(
 							literal('groupadd').then(
-								argument('group', KeyedArgumentType.group(server)).executes((ctx, src) => {
-									const group = ctx.getTyped<Group>('group');
-									const player = ctx.getTyped<VirtualPlayerHolder>('player');
-									player.addGroup(group.name);
-									src.send(`&aAdded &f${player.getName()}&a to group &f${group.name}&a.`);
-									player.finish();
-								})
+								argument('group', KeyedArgumentType.group(server))
+									.executes((ctx, src) => {
+										const group = ctx.getTyped<Group>('group');
+										const player = ctx.getTyped<VirtualPlayerHolder>('player');
+										player.addGroup(group.name);
+										src.send(`&aAdded &f${player.getName()}&a to group &f${group.name}&a.`);
+										player.finish();
+									})
+									.then(
+										argument('duration', new DurationArgumentType()).executes((ctx, src) => {
+											const group = ctx.getTyped<Group>('group');
+											const player = ctx.getTyped<VirtualPlayerHolder>('player');
+											const duration = ctx.getTyped<number>('duration');
+											player.addGroup(group.name, duration);
+											src.send(`&aAdded &f${player.getName()}&a to group &f${group.name}&a for &6${formatDuration(duration)}&a.`);
+											player.finish();
+										})
+									)
 							)
 						)
 						.then(
@@ -330,7 +767,7 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 								argument('group', KeyedArgumentType.group(server)).executes((ctx, src) => {
 									const group = ctx.getTyped<Group>('group');
 									const player = ctx.getTyped<VirtualPlayerHolder>('player');
-									player.addGroup(group.name);
+									player.removeGroup(group.name);
 									src.send(`&aRemoved &f${player.getName()}&a from group &f${group.name}&a.`);
 									player.finish();
 								})
@@ -338,6 +775,28 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 						)
 				)
 			)
+			.then(
+				literal('check').then(
+					argument('player', KeyedArgumentType.playerHolder(server)).then(
+						argument('permission', word()).executes((ctx, src) => {
+							const perm = ctx.getTyped<string>('permission');
+							const player = ctx.getTyped<VirtualPlayerHolder>('player');
+							const source = player.checkPermissionSource(perm);
+							player.discard();
+
+							if (source == null) {
+								src.send(`&aPermission &6${perm}&a isn't set for &f${player.getName()}&a.`);
+								return;
+							}
+
+							src.send(
+								`&aPermission &6${perm}&a of &f${player.getName()}&a is &6${source.value}&a, ` +
+									`from ${source.group ? `group &f${source.group}` : '&fplayer'}&a (&6${source.node}&a).`
+							);
+						})
+					)
+				)
+			)
 			.then(
 				literal('group').then(
 					argument('group', KeyedArgumentType.group(server, true))
@@ -349,6 +808,7 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 										const group = ctx.getTyped<Group>('group');
 										group.setPermission(perm, true);
 										src.send(`&aChanged permission &6${perm}&a of group &f${group.getName()}&a to &6true&a.`);
+										server.players.forEach((p) => p.updateOperatorStatus());
 									})
 									.then(
 										argument('value', new TriStateArgumentType()).executes((ctx, src) => {
@@ -357,6 +817,7 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 											const value = ctx.getTyped<TriState>('value');
 											group.setPermission(perm, value.value);
 											src.send(`&aChanged permission &6${perm}&a of group &f${group.getName()}&a to &6${value.name}&a.`);
+											server.players.forEach((p) => p.updateOperatorStatus());
 										})
 									)
 							)
@@ -368,6 +829,7 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 									const group = ctx.getTyped<Group>('group');
 									group.setPermission(perm, null);
 									src.send(`&aRemoved permission &6${perm}&a from group &f${group.getName()}&a.`);
+									server.players.forEach((p) => p.updateOperatorStatus());
 								})
 							)
 						)
@@ -404,6 +866,47 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 								)
 						)
 
+						.then(
+							literal('weight').then(
+								argument('value', new IntegerArgumentType()).executes((ctx, src) => {
+									const group = ctx.getTyped<Group>('group');
+									server.setGroupWeight(group, ctx.getTyped<number>('value'));
+									src.send(`&aChanged weight of &f${group.getName()}&a to &f${group.weight}&a.`);
+								})
+							)
+						)
+
+						.then(
+							literal('parent')
+								.then(
+									literal('add').then(
+										argument('parent', KeyedArgumentType.group(server)).executes((ctx, src) => {
+											const group = ctx.getTyped<Group>('group');
+											const parent = ctx.getTyped<Group>('parent');
+
+											if (!server.addGroupParent(group, parent)) {
+												src.sendError(`Group ${parent.getName()} already inherits from ${group.getName()}!`);
+												return;
+											}
+
+											src.send(`&aGroup &f${group.getName()}&a now inherits from &f${parent.getName()}&a.`);
+											server.players.forEach((p) => p.updateOperatorStatus());
+										})
+									)
+								)
+								.then(
+									literal('remove').then(
+										argument('parent', KeyedArgumentType.group(server)).executes((ctx, src) => {
+											const group = ctx.getTyped<Group>('group');
+											const parent = ctx.getTyped<Group>('parent');
+											server.removeGroupParent(group, parent.name);
+											src.send(`&aGroup &f${group.getName()}&a no longer inherits from &f${parent.getName()}&a.`);
+											server.players.forEach((p) => p.updateOperatorStatus());
+										})
+									)
+								)
+						)
+
 						.then(
 							literal('display')
 								.executes((ctx, src) => {
@@ -430,14 +933,16 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 				lines: [
 					'This commands allows to manage permissions and groups',
 					'of players.',
-					'&6/perms user [<user>] set [<perm>] <true/false> &7-',
-					'&7 Sets permission of player',
+					'&6/perms user [<user>] set [<perm>] <true/false> <time> &7-',
+					'&7 Sets permission of player, optionally for some time',
 					'&6/perms user [<user>] remove [<perm>] &7-',
 					"&7 Removes player's permission",
-					'&6/perms user [<user>] groupadd [<group>] &7-',
-					'&7 Adds player to a group',
+					'&6/perms user [<user>] groupadd [<group>] <time> &7-',
+					'&7 Adds player to a group, optionally for some time',
 					'&6/perms user [<user>] groupremove [<group>] &7-',
 					'&7 Removes player from a group',
+					'&6/perms check [<user>] [<perm>] &7-',
+					'&7 Shows value of permission and where it comes from',
 				],
 			},
 			{
@@ -452,8 +957,300 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 					'&7 Changes groups prefix',
 					'&6/perms group [<group>] suffix <prefix> &7-',
 					'&7 Changes groups suffix',
+					'&6/perms group [<group>] weight <number> &7-',
+					'&7 Changes groups weight, highest one is used in chat',
 					'&6/perms group [<group>] display <visible name> &7-',
 					'&7 Changes visible name of a group',
+					'&6/perms group [<group>] parent add/remove [<group>] &7-',
+					'&7 Changes groups this group inherits from',
+				],
+			},
+		]
+	);
+
+	for (const [name, direction] of <[string, 1 | -1][]>[['promote', 1], ['demote', -1]]) {
+		server.addCommand(
+			literal(name)
+				.requires((ctx) => ctx.checkPermission(`commands.${name}`).get(false))
+				.then(
+					argument('player', KeyedArgumentType.playerHolder(server))
+						.executes((ctx, src) => {
+							changeRank(server, src, ctx.getTyped<VirtualPlayerHolder>('player'), null, direction);
+						})
+						.then(
+							argument('ladder', word()).executes((ctx, src) => {
+								changeRank(server, src, ctx.getTyped<VirtualPlayerHolder>('player'), ctx.getTyped<string>('ladder'), direction);
+							})
+						)
+				),
+			direction == 1 ? 'Moves player to next rank of a ladder' : 'Moves player to previous rank of a ladder',
+			[
+				{
+					title: `/${name} command`,
+					number: 0,
+					lines: [
+						`&6/${name} [<player>] &7- ${direction == 1 ? 'Promotes' : 'Demotes'} player on their ladder`,
+						`&6/${name} [<player>] [<ladder>] &7- ${direction == 1 ? 'Promotes' : 'Demotes'} player on provided ladder`,
+						`&7Requires &6ranks.${name}.<ladder>.<group>&7 permission`,
+						`&7for every group player is ${direction == 1 ? 'promoted to' : 'demoted from'}`,
+					],
+				},
+			]
+		);
+	}
+
+	server.addCommand(
+		literal('blockinfo')
+			.requires((ctx) => ctx.checkPermission('commands.blockinfo').get(false))
+			.executes((_ctx, src) => {
+				const player = src.player();
+				const enabled = !player.getTemp<boolean>('blockInspector');
+				player.setTemp('blockInspector', enabled);
+				src.send(enabled ? '&aBlock inspector enabled! Break block to see its history.' : '&aBlock inspector disabled!');
+			})
+			.then(
+				argument('pos', new BlockPosArgumentType()).executes((ctx, src) => {
+					const world = src.player().world;
+					const [x, y, z] = ctx.getTyped<XYZ>('pos');
+					const changes = world.history.getAt(x, y, z).slice(-8);
+
+					if (changes.length == 0) {
+						src.send(`&aNo changes recorded at &6${x} ${y} ${z}&a.`);
+						return;
+					}
+
+					src.send(`&aChanges at &6${x} ${y} ${z}&a:`);
+
+					for (const change of changes) {
+						const name = server.files.getPlayer(change.player)?.username ?? change.player;
+						const action =
+							change.newBlock == 0
+								? `&cbroke &f${server.blockRegistry.getName(change.oldBlock) ?? change.oldBlock}`
+								: `&aplaced &f${server.blockRegistry.getName(change.newBlock) ?? change.newBlock}`;
+
+						src.send(`&7${formatDuration(Date.now() - change.time)} ago &f${name} ${action}`);
+					}
+				})
+			),
+		'Shows history of blocks',
+		[
+			{
+				title: '/blockinfo command',
+				number: 0,
+				lines: [
+					'Shows who changed blocks and when',
+					'&6/blockinfo &7- Toggles block inspector',
+					'&6/blockinfo <x> <y> <z> &7- Shows changes at position',
+				],
+			},
+		]
+	);
+
+	server.addCommand(
+		literal('ignite')
+			.requires((ctx) => ctx.checkPermission('commands.ignite').get(false) && server.config.tntTriggers.includes('command'))
+			.then(
+				argument('pos', new BlockPosArgumentType()).executes((ctx, src) => {
+					const world = src.player().world;
+					const [x, y, z] = ctx.getTyped<XYZ>('pos');
+
+					if (!world.settings.explosions) {
+						src.sendError(`Explosions are disabled in world ${world.name}!`);
+					} else if (world.getBlockId(x, y, z) != server.blockIds.tnt) {
+						src.sendError(`There is no TNT at ${x} ${y} ${z}!`);
+					} else if (!world.ignite(x, y, z, src.player().uuid)) {
+						src.sendError('This TNT is already ignited!');
+					} else {
+						src.send(`&aIgnited TNT at &6${x} ${y} ${z}&a.`);
+					}
+				})
+			),
+		'Ignites TNT at position'
+	);
+
+	server.addCommand(
+		literal('rollback')
+			.requires((ctx) => ctx.checkPermission('commands.rollback').get(false))
+			.then(
+				argument('player', word()).then(
+					argument('time', new DurationArgumentType()).executes((ctx, src) => {
+						const username = ctx.getTyped<string>('player');
+						const time = ctx.getTyped<number>('time');
+						const uuid = server.getPlayerIdFromName(username);
+
+						if (!uuid) {
+							src.sendError(`Player ${username} never joined this server!`);
+							return;
+						}
+
+						let count = 0;
+
+						for (const world of server.worlds.values()) {
+							const changes = world.history.removeBy(uuid, Date.now() - time);
+
+							world.setBlocks(changes.reverse().map((c) => [c.x, c.y, c.z, c.oldBlock]));
+							count += changes.length;
+						}
+
+						src.send(`&aReverted &6${count}&a changes made by &f${username}&a in last &6${formatDuration(time)}&a.`);
+					})
+				)
+			),
+		'Reverts changes made by player',
+		[
+			{
+				title: '/rollback command',
+				number: 0,
+				lines: ['Reverts changes made by player in all loaded worlds', 'Usage: &6/rollback <player> <time>', '&7Time uses units s, m, h, d, w, for example &630m&7 or &61d12h'],
+			},
+		]
+	);
+
+	server.addCommand(
+		literal('region')
+			.requires((ctx) => ctx.checkPermission('commands.region').get(false))
+			.then(
+				literal('define')
+					.requires((ctx) => ctx.checkPermission('commands.region.define').get(false))
+					.then(
+						argument('name', word()).then(
+							argument('pos1', new BlockPosArgumentType()).then(
+								argument('pos2', new BlockPosArgumentType()).executes((ctx, src) => {
+									const world = src.player().world;
+									const name = ctx.getTyped<string>('name');
+									const [x1, y1, z1] = ctx.getTyped<XYZ>('pos1');
+									const [x2, y2, z2] = ctx.getTyped<XYZ>('pos2');
+
+									if (!world.isInBounds(x1, y1, z1) || !world.isInBounds(x2, y2, z2)) {
+										src.sendError('Region corners need to be inside of world!');
+										return;
+									} else if (world.regions.has(name)) {
+										src.sendError(`Region ${name} already exists!`);
+										return;
+									}
+
+									world.addRegion(new Region(name, { x: x1, y: y1, z: z1 }, { x: x2, y: y2, z: z2 }, [src.player().uuid]));
+									src.send(`&aDefined region &f${name}&a in world &f${world.name}&a.`);
+								})
+							)
+						)
+					)
+			)
+			.then(
+				literal('remove')
+					.requires((ctx) => ctx.checkPermission('commands.region.remove').get(false))
+					.then(
+						argument('name', word()).executes((ctx, src) => {
+							const region = getOwnedRegion(src, ctx.getTyped<string>('name'));
+
+							if (region) {
+								src.player().world.removeRegion(region.name);
+								src.send(`&aRemoved region &f${region.name}&a.`);
+							}
+						})
+					)
+			)
+			.then(
+				literal('addmember')
+					.requires((ctx) => ctx.checkPermission('commands.region.addmember').get(false))
+					.then(
+						argument('name', word()).then(
+							argument('player', word()).executes((ctx, src) => {
+								const region = getOwnedRegion(src, ctx.getTyped<string>('name'));
+								const username = ctx.getTyped<string>('player');
+								const uuid = server.getPlayerIdFromName(username);
+
+								if (!region) {
+									return;
+								} else if (!uuid) {
+									src.sendError(`Player ${username} never joined this server!`);
+									return;
+								}
+
+								region.members.add(uuid);
+								src.player().world.dirty = true;
+								src.send(`&aAdded &f${username}&a to region &f${region.name}&a.`);
+							})
+						)
+					)
+			)
+			.then(
+				literal('flag')
+					.requires((ctx) => ctx.checkPermission('commands.region.flag').get(false))
+					.then(
+						argument('name', word()).then(
+							argument('flag', word()).then(
+								argument('value', new TriStateArgumentType()).executes((ctx, src) => {
+									const region = getOwnedRegion(src, ctx.getTyped<string>('name'));
+									const flag = ctx.getTyped<string>('flag');
+									const value = ctx.getTyped<TriState>('value');
+
+									if (!region) {
+										return;
+									} else if (!isRegionFlag(flag)) {
+										src.sendError(`Invalid flag! Available: ${Object.keys(defaultRegionFlags).join(', ')}`);
+										return;
+									}
+
+									region.flags[flag] = value.get(defaultRegionFlags[flag]);
+									src.player().world.dirty = true;
+									src.send(`&aChanged flag &6${flag}&a of region &f${region.name}&a to &6${region.flags[flag]}&a.`);
+								})
+							)
+						)
+					)
+			)
+			.then(
+				literal('info')
+					.requires((ctx) => ctx.checkPermission('commands.region.info').get(false))
+					.executes((_ctx, src) => {
+						const regions = src.player().world.getRegionsAt(...src.player().position);
+
+						if (regions.length == 0) {
+							src.send('&aYou are not in any region.');
+							return;
+						}
+
+						src.send(`&aRegions at your position: &f${regions.map((r) => r.name).join('&7,&f ')}`);
+					})
+					.then(
+						argument('name', word()).executes((ctx, src) => {
+							const name = ctx.getTyped<string>('name');
+							const region = src.player().world.regions.get(name);
+
+							if (!region) {
+								src.sendError(`Region ${name} doesn't exist!`);
+								return;
+							}
+
+							const getName = (uuid: string) => server.files.getPlayer(uuid)?.username ?? uuid;
+
+							src.send(`&aRegion &f${region.name}&a:`);
+							src.send(`&6From&7: &f${region.min.x} ${region.min.y} ${region.min.z} &6To&7: &f${region.max.x} ${region.max.y} ${region.max.z}`);
+							src.send(`&6Owners&7: &f${[...region.owners].map(getName).join(', ')}`);
+							src.send(`&6Members&7: &f${[...region.members].map(getName).join(', ')}`);
+							src.send(`&6Flags&7: &f${Object.entries(region.flags).map(([k, v]) => `${k}=${v}`).join(', ')}`);
+						})
+					)
+			),
+
+		'Allows to protect areas of worlds',
+		[
+			{
+				title: '/region command',
+				number: 0,
+				lines: [
+					'This commands allows to protect parts of worlds',
+					'&6/region define <name> <x1> <y1> <z1> <x2> <y2> <z2>',
+					'&7 Creates new region in current world',
+					'&6/region remove <name>',
+					'&7 Removes region',
+					'&6/region addmember <name> <player>',
+					'&7 Allows player to build in region',
+					'&6/region flag <name> <flag> <true/false>',
+					'&7 Changes flag (build, break, enter, pvp) of region',
+					'&6/region info [<name>]',
+					'&7 Shows information about region',
 				],
 			},
 		]
@@ -582,6 +1379,39 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 							})
 					)
 			)
+			.then(
+				literal('settings')
+					.requires((ctx) => ctx.checkPermission('command.world.settings').get(false))
+					.executes((_ctx, src) => {
+						const world = src.player().world;
+						src.send(`&aSettings of world &f${world.name}&a:`);
+
+						for (const [key, value] of Object.entries(world.settings)) {
+							src.send(`&6${key}&7: &f${value}`);
+						}
+					})
+					.then(
+						argument('setting', KeyedArgumentType.worldSetting())
+							.executes((ctx, src) => {
+								const world = src.player().world;
+								const key = ctx.getTyped<keyof WorldSettings>('setting');
+								src.send(`&aSetting &6${key}&a of world &f${world.name}&a is set to &6${world.settings[key]}&a.`);
+							})
+							.then(
+								argument('value', greedyString()).executes((ctx, src) => {
+									const world = src.player().world;
+									const key = ctx.getTyped<keyof WorldSettings>('setting');
+									const value = parseWorldSetting(key, ctx.getTyped<string>('value'));
+
+									if (world.setSetting(key, value)) {
+										src.send(`&aChanged setting &6${key}&a of world &f${world.name}&a to &6${value}&a.`);
+									} else {
+										src.sendError(`Couldn't change setting ${key}!`);
+									}
+								})
+							)
+					)
+			)
 			.then(
 				literal('generators')
 					.requires((ctx) => ctx.checkPermission('command.world.generators').get(true))
@@ -623,8 +1453,111 @@ export function setupCommands(server: Server, infos: Map<string, CommandInfo>) {
 			{
 				title: '/world command',
 				number: 1,
-				lines: ['&6/world backup <name>', '&7 creates backup of world.'],
+				lines: [
+					'&6/world backup <name>',
+					'&7 creates backup of world.',
+					'&6/world settings [<setting>] [<value>]',
+					'&7 Shows or changes settings of current world, use none to clear text',
+				],
 			},
 		]
 	);
 }
+
+/**
+ * Moves player up or down on rank ladder
+ *
+ * @param ladderName Name of ladder, if null first ladder player is on is used
+ * @param direction 1 for promotion, -1 for demotion
+ */
+function changeRank(server: Server, src: CommandSource, player: VirtualPlayerHolder, ladderName: Nullable<string>, direction: 1 | -1) {
+	const groups = player.getGroups();
+	ladderName ??= Object.keys(server.config.rankLadders).find((x) => server.config.rankLadders[x].some((g) => groups.includes(g))) ?? null;
+
+	if (ladderName == null) {
+		src.sendError(`Player ${player.getName()} isn't on any ladder!`);
+		player.finish();
+		return;
+	}
+
+	const ladder = isOwnKey(server.config.rankLadders, ladderName) ? server.config.rankLadders[ladderName] : null;
+
+	if (!ladder) {
+		src.sendError(`Ladder ${ladderName} doesn't exist!`);
+		player.finish();
+		return;
+	}
+
+	let index = -1;
+	ladder.forEach((group, i) => (groups.includes(group) ? (index = i) : null));
+	const current = ladder[index] ?? null;
+	const next = ladder[index + direction] ?? null;
+
+	if ((direction == 1 && next == null) || (direction == -1 && current == null)) {
+		src.sendError(`Player ${player.getName()} can't be ${direction == 1 ? 'promoted' : 'demoted'} on ladder ${ladderName}!`);
+		player.finish();
+		return;
+	}
+
+	const checked = direction == 1 ? next : current;
+	if (!src.checkPermission(`ranks.${direction == 1 ? 'promote' : 'demote'}.${ladderName}.${checked}`).get(false)) {
+		src.sendError(`You can't ${direction == 1 ? 'promote players to' : 'demote players from'} ${checked}!`);
+		player.finish();
+		return;
+	}
+
+	current != null ? player.removeGroup(current) : null;
+	next != null ? player.addGroup(next) : null;
+	player.finish();
+
+	const group = next != null ? server.groups.get(next)?.getName() ?? next : 'default';
+
+	server.sendChatMessage(
+		server.getMessage(direction == 1 ? 'promoted' : 'demoted', {
+			player: player.getDisplayName() ?? player.getName(),
+			group,
+			issuer: src.playerOrNull()?.getDisplayName() ?? 'Console',
+		})
+	);
+}
+
+/**
+ * Returns region from player's world, if command source can manage it
+ */
+function getOwnedRegion(src: CommandSource, name: string): Nullable<Region> {
+	const player = src.player();
+	const region = player.world.regions.get(name);
+
+	if (!region) {
+		src.sendError(`Region ${name} doesn't exist!`);
+		return null;
+	} else if (!region.owners.has(player.uuid) && !src.checkPermission('commands.region.others').get(false)) {
+		src.sendError(`You aren't owner of region ${name}!`);
+		return null;
+	}
+
+	return region;
+}
+
+function parseWorldSetting(key: keyof WorldSettings, value: string): WorldSettings[keyof WorldSettings] {
+	switch (typeof defaultWorldSettings[key]) {
+		case 'boolean':
+			return new TriStateArgumentType().parse(new StringReader(value)).value ?? defaultWorldSettings[key];
+		case 'number':
+			return new IntegerArgumentType(0).parse(new StringReader(value));
+		default:
+			// Text settings can be cleared with `none`
+			return value.trim().toLowerCase() == 'none' ? '' : value;
+	}
+}
+
+/**
+ * Checks if value is IPv4 or IPv6 address
+ */
+function isIpAddress(value: string): boolean {
+	if (/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.test(value)) {
+		return value.split('.').every((x) => parseInt(x) <= 255);
+	}
+
+	return value.includes(':') && /^[0-9a-fA-F:.]+$/.test(value);
+}
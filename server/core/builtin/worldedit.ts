@@ -0,0 +1,446 @@
+import { IntegerArgumentType } from '../../libs/brigadier/index.ts';
+import { argument, BlockPosArgumentType, CommandSource, KeyedArgumentType, literal } from '../commands.ts';
+import type { Player } from '../player.ts';
+import type { Server } from '../server.ts';
+import type { Nullable, XYZ } from '../types.ts';
+import type { Block } from '../world/blocks.ts';
+import type { World } from '../world/world.ts';
+
+export class EditSession {
+	pos1: Nullable<XYZ> = null;
+	pos2: Nullable<XYZ> = null;
+	world: Nullable<World> = null;
+	selecting = false;
+
+	clipboard: Nullable<Clipboard> = null;
+
+	readonly undo: EditRecord[] = [];
+	readonly redo: EditRecord[] = [];
+
+	/**
+	 * Returns minimal and maximal corners of selection, if it's complete and in provided world
+	 */
+	getSelection(world: World): Nullable<[XYZ, XYZ]> {
+		if (!this.pos1 || !this.pos2 || this.world != world) {
+			return null;
+		}
+
+		return [
+			[Math.min(this.pos1[0], this.pos2[0]), Math.min(this.pos1[1], this.pos2[1]), Math.min(this.pos1[2], this.pos2[2])],
+			[Math.max(this.pos1[0], this.pos2[0]), Math.max(this.pos1[1], this.pos2[1]), Math.max(this.pos1[2], this.pos2[2])],
+		];
+	}
+
+	setPosition(world: World, index: 1 | 2, pos: XYZ) {
+		if (this.world != world) {
+			this.pos1 = null;
+			this.pos2 = null;
+			this.world = world;
+		}
+
+		index == 1 ? (this.pos1 = pos) : (this.pos2 = pos);
+	}
+}
+
+export interface Clipboard {
+	size: XYZ;
+	/**
+	 * Position of selection's minimal corner, relative to player when it was copied
+	 */
+	offset: XYZ;
+	blocks: Uint16Array;
+}
+
+export interface EditRecord {
+	world: World;
+	before: [number, number, number, number][];
+	after: [number, number, number, number][];
+}
+
+/**
+ * Returns world edit session of player, creating it if needed
+ */
+export function getEditSession(player: Player): EditSession {
+	let session = player.getTemp<EditSession>('worldEdit');
+
+	if (!session) {
+		session = new EditSession();
+		player.setTemp('worldEdit', session);
+	}
+
+	return session;
+}
+
+export function setupWorldEdit(server: Server) {
+	server.event.PlayerBlockBreak.on((ctx) => {
+		const session = ctx.value.player.getTemp<EditSession>('worldEdit');
+
+		if (session?.selecting) {
+			const { x, y, z } = ctx.value.position;
+			session.setPosition(ctx.value.world, 1, [x, y, z]);
+			ctx.value.player.sendMessage(`&aFirst position set to &6${x} ${y} ${z}&a.`);
+			ctx.canceled = true;
+		}
+	});
+
+	server.event.PlayerBlockPlace.on((ctx) => {
+		const session = ctx.value.player.getTemp<EditSession>('worldEdit');
+
+		if (session?.selecting) {
+			const { x, y, z } = ctx.value.position;
+			session.setPosition(ctx.value.world, 2, [x, y, z]);
+			ctx.value.player.sendMessage(`&aSecond position set to &6${x} ${y} ${z}&a.`);
+			ctx.canceled = true;
+		}
+	});
+
+	server.addCommand(
+		literal('select')
+			.requires((ctx) => ctx.checkPermission('commands.worldedit.select').get(false))
+			.executes((_ctx, src) => {
+				const session = getEditSession(src.player());
+				session.selecting = !session.selecting;
+				src.send(session.selecting ? '&aSelection mode enabled! Break block to set first and place to set second position.' : '&aSelection mode disabled!');
+			}),
+		'Toggles selecting positions by clicking'
+	);
+
+	for (const index of <(1 | 2)[]>[1, 2]) {
+		const setPosition = (src: CommandSource, pos: XYZ) => {
+			getEditSession(src.player()).setPosition(src.player().world, index, pos);
+			src.send(`&a${index == 1 ? 'First' : 'Second'} position set to &6${pos[0]} ${pos[1]} ${pos[2]}&a.`);
+		};
+
+		server.addCommand(
+			literal('pos' + index)
+				.requires((ctx) => ctx.checkPermission('commands.worldedit.select').get(false))
+				.executes((_ctx, src) => {
+					const pos = src.player().getBlockPos();
+					setPosition(src, [pos.x, pos.y, pos.z]);
+				})
+				.then(argument('pos', new BlockPosArgumentType()).executes((ctx, src) => setPosition(src, ctx.getTyped<XYZ>('pos')))),
+			`Sets ${index == 1 ? 'first' : 'second'} position of selection`
+		);
+	}
+
+	server.addCommand(
+		literal('cuboid')
+			.requires((ctx) => ctx.checkPermission('commands.worldedit.cuboid').get(false))
+			.then(
+				argument('block', KeyedArgumentType.block(server)).executes((ctx, src) => {
+					const block = ctx.getTyped<Block>('block');
+
+					editSelection(src, (_x, _y, _z) => block.numId);
+				})
+			),
+		'Fills selection with block'
+	);
+
+	server.addCommand(
+		literal('replace')
+			.requires((ctx) => ctx.checkPermission('commands.worldedit.replace').get(false))
+			.then(
+				argument('from', KeyedArgumentType.block(server)).then(
+					argument('to', KeyedArgumentType.block(server)).executes((ctx, src) => {
+						const from = ctx.getTyped<Block>('from');
+						const to = ctx.getTyped<Block>('to');
+						const world = src.player().world;
+
+						editSelection(src, (x, y, z) => (world.getBlockId(x, y, z) == from.numId ? to.numId : null));
+					})
+				)
+			),
+		'Replaces blocks in selection'
+	);
+
+	server.addCommand(
+		literal('walls')
+			.requires((ctx) => ctx.checkPermission('commands.worldedit.walls').get(false))
+			.then(
+				argument('block', KeyedArgumentType.block(server)).executes((ctx, src) => {
+					const block = ctx.getTyped<Block>('block');
+
+					editSelection(src, (x, _y, z, min, max) => (x == min[0] || x == max[0] || z == min[2] || z == max[2] ? block.numId : null));
+				})
+			),
+		'Creates walls around selection'
+	);
+
+	server.addCommand(
+		literal('copy')
+			.requires((ctx) => ctx.checkPermission('commands.worldedit.copy').get(false))
+			.executes((_ctx, src) => {
+				const player = src.player();
+				const session = getEditSession(player);
+				const selection = session.getSelection(player.world);
+
+				if (!selection) {
+					src.sendError('You need to select area first!');
+					return;
+				}
+
+				const [min, max] = selection;
+				const size: XYZ = [max[0] - min[0] + 1, max[1] - min[1] + 1, max[2] - min[2] + 1];
+
+				if (size[0] * size[1] * size[2] > server.config.worldEditMaxBlocks) {
+					src.sendError(`Selection is too big! Limit is ${server.config.worldEditMaxBlocks} blocks.`);
+					return;
+				}
+
+				const blocks = new Uint16Array(size[0] * size[1] * size[2]);
+
+				for (let x = 0; x < size[0]; x++) {
+					for (let y = 0; y < size[1]; y++) {
+						for (let z = 0; z < size[2]; z++) {
+							blocks[clipboardIndex(size, x, y, z)] = player.world.getBlockId(min[0] + x, min[1] + y, min[2] + z);
+						}
+					}
+				}
+
+				const pos = player.getBlockPos();
+				session.clipboard = { size, offset: [min[0] - pos.x, min[1] - pos.y, min[2] - pos.z], blocks };
+				src.send(`&aCopied &6${blocks.length}&a blocks.`);
+			}),
+		'Copies selection to clipboard'
+	);
+
+	server.addCommand(
+		literal('paste')
+			.requires((ctx) => ctx.checkPermission('commands.worldedit.paste').get(false))
+			.executes((_ctx, src) => {
+				const player = src.player();
+				const clipboard = getEditSession(player).clipboard;
+
+				if (!clipboard) {
+					src.sendError('Your clipboard is empty!');
+					return;
+				}
+
+				const pos = player.getBlockPos();
+				const [sizeX, sizeY, sizeZ] = clipboard.size;
+				const blocks: [number, number, number, number][] = [];
+
+				for (let x = 0; x < sizeX; x++) {
+					for (let y = 0; y < sizeY; y++) {
+						for (let z = 0; z < sizeZ; z++) {
+							blocks.push([pos.x + clipboard.offset[0] + x, pos.y + clipboard.offset[1] + y, pos.z + clipboard.offset[2] + z, clipboard.blocks[clipboardIndex(clipboard.size, x, y, z)]]);
+						}
+					}
+				}
+
+				const changed = applyEdit(player, player.world, blocks);
+				changed != null ? src.send(`&aPasted &6${changed}&a blocks.`) : null;
+			}),
+		'Pastes clipboard at your position'
+	);
+
+	server.addCommand(
+		literal('rotate')
+			.requires((ctx) => ctx.checkPermission('commands.worldedit.copy').get(false))
+			.executes((_ctx, src) => server.executeCommand('rotate 90', src))
+			.then(
+				argument('angle', new IntegerArgumentType()).executes((ctx, src) => {
+					const session = getEditSession(src.player());
+					const angle = ctx.getTyped<number>('angle');
+
+					if (!session.clipboard) {
+						src.sendError('Your clipboard is empty!');
+						return;
+					} else if (angle % 90 != 0) {
+						src.sendError('Angle needs to be multiple of 90!');
+						return;
+					}
+
+					const turns = (((angle / 90) % 4) + 4) % 4;
+
+					for (let i = 0; i < turns; i++) {
+						session.clipboard = rotateClipboard(session.clipboard);
+					}
+
+					src.send(`&aRotated clipboard by &6${angle}&a degrees.`);
+				})
+			),
+		'Rotates clipboard around vertical axis'
+	);
+
+	server.addCommand(
+		literal('undo')
+			.requires((ctx) => ctx.checkPermission('commands.worldedit.undo').get(false))
+			.executes((_ctx, src) => {
+				const player = src.player();
+				const session = getEditSession(player);
+				const record = session.undo.pop();
+
+				if (!record) {
+					src.sendError('Nothing to undo!');
+					return;
+				} else if (record.world != player.world) {
+					session.undo.push(record);
+					src.sendError(`You need to be in world ${record.world.name} to undo this edit!`);
+					return;
+				}
+
+				const applied = writeBlocks(player, record.world, record.before);
+
+				if (!applied) {
+					session.undo.push(record);
+					return;
+				}
+
+				session.redo.push(record);
+				src.send(`&aUndone &6${applied.after.length}&a block changes.`);
+			}),
+		'Reverts your last edit'
+	);
+
+	server.addCommand(
+		literal('redo')
+			.requires((ctx) => ctx.checkPermission('commands.worldedit.undo').get(false))
+			.executes((_ctx, src) => {
+				const player = src.player();
+				const session = getEditSession(player);
+				const record = session.redo.pop();
+
+				if (!record) {
+					src.sendError('Nothing to redo!');
+					return;
+				} else if (record.world != player.world) {
+					session.redo.push(record);
+					src.sendError(`You need to be in world ${record.world.name} to redo this edit!`);
+					return;
+				}
+
+				const applied = writeBlocks(player, record.world, record.after);
+
+				if (!applied) {
+					session.redo.push(record);
+					return;
+				}
+
+				session.undo.push(record);
+				src.send(`&aRedone &6${applied.after.length}&a block changes.`);
+			}),
+		'Restores last undone edit'
+	);
+
+	/**
+	 * Changes blocks inside of selection
+	 *
+	 * @param src Command source
+	 * @param getter Returns new block id for position or null to keep current one
+	 */
+	function editSelection(src: CommandSource, getter: (x: number, y: number, z: number, min: XYZ, max: XYZ) => Nullable<number>) {
+		const player = src.player();
+		const selection = getEditSession(player).getSelection(player.world);
+
+		if (!selection) {
+			src.sendError('You need to select area first!');
+			return;
+		}
+
+		const [min, max] = selection;
+
+		if ((max[0] - min[0] + 1) * (max[1] - min[1] + 1) * (max[2] - min[2] + 1) > server.config.worldEditMaxBlocks) {
+			src.sendError(`Selection is too big! Limit is ${server.config.worldEditMaxBlocks} blocks.`);
+			return;
+		}
+
+		const blocks: [number, number, number, number][] = [];
+
+		for (let x = min[0]; x <= max[0]; x++) {
+			for (let y = min[1]; y <= max[1]; y++) {
+				for (let z = min[2]; z <= max[2]; z++) {
+					const block = getter(x, y, z, min, max);
+					block != null ? blocks.push([x, y, z, block]) : null;
+				}
+			}
+		}
+
+		const changed = applyEdit(player, player.world, blocks);
+		changed != null ? src.send(`&aChanged &6${changed}&a blocks.`) : null;
+	}
+
+	/**
+	 * Applies changes to world and stores them in player's undo history
+	 *
+	 * @returns Amount of changed blocks or null if player can't modify world
+	 */
+	function applyEdit(player: Player, world: World, blocks: [number, number, number, number][]): Nullable<number> {
+		const record = writeBlocks(player, world, blocks);
+
+		if (!record) {
+			return null;
+		}
+
+		const session = getEditSession(player);
+
+		if (record.after.length > 0) {
+			session.undo.push(record);
+			session.redo.length = 0;
+
+			while (session.undo.length > server.config.worldEditUndoLimit) {
+				session.undo.shift();
+			}
+		}
+
+		return record.after.length;
+	}
+
+	/**
+	 * Sets blocks, skipping ones protected by regions, and records them in world's block history
+	 *
+	 * @returns Applied changes or null if player can't modify world
+	 */
+	function writeBlocks(player: Player, world: World, blocks: [number, number, number, number][]): Nullable<EditRecord> {
+		if (!player.canModifyWorld()) {
+			player.sendMessage(server.getMessage('noBuildPermission', { world: world.name }));
+			return null;
+		}
+
+		const record: EditRecord = { world, before: [], after: [] };
+		const time = Date.now();
+
+		for (const [x, y, z, block] of blocks) {
+			const old = world.getBlockId(x, y, z);
+
+			if (!world.isInBounds(x, y, z) || old == block) {
+				continue;
+			} else if ((old != 0 && !world.checkRegionFlag(player, x, y, z, 'break')) || (block != 0 && !world.checkRegionFlag(player, x, y, z, 'build'))) {
+				continue;
+			}
+
+			record.before.push([x, y, z, old]);
+			record.after.push([x, y, z, block]);
+			world.history.add({ x, y, z, oldBlock: old, newBlock: block, player: player.uuid, time });
+		}
+
+		world.setBlocks(record.after);
+		return record;
+	}
+}
+
+function clipboardIndex(size: XYZ, x: number, y: number, z: number): number {
+	return x + size[0] * (z + size[2] * y);
+}
+
+/**
+ * Rotates clipboard by 90 degrees clockwise
+ */
+function rotateClipboard(clipboard: Clipboard): Clipboard {
+	const [sizeX, sizeY, sizeZ] = clipboard.size;
+	const size: XYZ = [sizeZ, sizeY, sizeX];
+	const blocks = new Uint16Array(clipboard.blocks.length);
+
+	for (let x = 0; x < sizeX; x++) {
+		for (let y = 0; y < sizeY; y++) {
+			for (let z = 0; z < sizeZ; z++) {
+				blocks[clipboardIndex(size, sizeZ - 1 - z, y, x)] = clipboard.blocks[clipboardIndex(clipboard.size, x, y, z)];
+			}
+		}
+	}
+
+	// Offset's corner moves as well, so structure stays on same side of player
+	const [offsetX, offsetY, offsetZ] = clipboard.offset;
+
+	return { size, offset: [-offsetZ - sizeZ + 1, offsetY, offsetX], blocks };
+}
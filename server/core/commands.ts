@@ -1,13 +1,15 @@
 import { ArgumentType, CommandErrorType, LiteralArgumentBuilder, LiteralCommandNode, RequiredArgumentBuilder, StringReader } from "../libs/brigadier/index.ts";
 import { Player, VirtualPlayerHolder } from "./player.ts";
 import { Group, Server } from "./server.ts";
-import { HelpPage, Nullable, TriState, XYZ } from "./types.ts";
-import { World } from "./world/world.ts";
+import { HelpPage, isOwnKey, Nullable, TriState, XYZ } from "./types.ts";
+import { Block } from "./world/blocks.ts";
+import { defaultWorldSettings, World, WorldSettings } from "./world/world.ts";
 
 export const ErrorTypes = {
 	playerRequired: new CommandErrorType(() => `This command can by executed only by players!`),
 	invalidKey: new CommandErrorType((type) => `Invalid ${type}!`),
-	invalidTriState: new CommandErrorType(() => `Invalid TriState! Expected "true", "false" or "default"!`)
+	invalidTriState: new CommandErrorType(() => `Invalid TriState! Expected "true", "false" or "default"!`),
+	invalidDuration: new CommandErrorType(() => `Invalid duration! Expected number with unit, for example "30m", "2h" or "7d"!`),
 } 
 
 
@@ -63,6 +65,14 @@ export class KeyedArgumentType<T> extends ArgumentType<T> {
 		return new KeyedArgumentType<World>("world", x => server.getWorld(x))
 	}
 
+	static block(server: Server) {
+		return new KeyedArgumentType<Block>("block", (x) => server.blockRegistry.getByName(x) ?? server.getBlock(parseInt(x)))
+	}
+
+	static worldSetting() {
+		return new KeyedArgumentType<keyof WorldSettings>("setting", (x) => isOwnKey(defaultWorldSettings, x) ? x : null)
+	}
+
 	static onlinePlayer(server: Server) {
 		return new KeyedArgumentType<Player>("player", (x) => server.getPlayerByName(x))
 	}
@@ -77,7 +87,7 @@ export class KeyedArgumentType<T> extends ArgumentType<T> {
 
 			if (!group && create) {
 				group = new Group({ name: x, permissions: {} });
-				server.groups.set(x, group);
+				server.addGroup(group);
 			}
 
 			return group ?? null;
@@ -131,3 +141,56 @@ export class TriStateArgumentType extends ArgumentType<TriState> {
 		}
 	}
 }
+
+const durationUnits: Record<string, number> = {
+	s: 1000,
+	m: 1000 * 60,
+	h: 1000 * 60 * 60,
+	d: 1000 * 60 * 60 * 24,
+	w: 1000 * 60 * 60 * 24 * 7,
+};
+
+/**
+ * Parses durations like "30m" or "1d12h", returning them in milliseconds
+ */
+export class DurationArgumentType extends ArgumentType<number> {
+	parse(reader: StringReader): number {
+		const start = reader.getCursor();
+		const value = reader.readUnquotedString();
+		const regex = /(\d+)([smhdw])/gy;
+
+		let out = 0;
+		let length = 0;
+		let match;
+
+		while ((match = regex.exec(value)) != null) {
+			out += parseInt(match[1]) * durationUnits[match[2]];
+			length += match[0].length;
+		}
+
+		if (length == 0 || length != value.length) {
+			reader.setCursor(start);
+			throw ErrorTypes.invalidDuration.createWithContext(reader);
+		}
+
+		return out;
+	}
+}
+
+/**
+ * Formats duration in milliseconds to human readable text, for example "1d 2h 5m"
+ */
+export function formatDuration(time: number): string {
+	const parts: string[] = [];
+
+	for (const unit of ['w', 'd', 'h', 'm', 's']) {
+		const amount = Math.floor(time / durationUnits[unit]);
+
+		if (amount > 0) {
+			parts.push(amount + unit);
+			time -= amount * durationUnits[unit];
+		}
+	}
+
+	return parts.length > 0 ? parts.join(' ') : '0s';
+}
@@ -1,7 +1,7 @@
 import { Player } from './player.ts';
-import { Position } from "./types.ts";
+import { Nullable, Position, XYZ } from "./types.ts";
 import { Block } from "./world/blocks.ts";
-import { World } from './world/world.ts';
+import { World, WorldSettings } from './world/world.ts';
 
 export interface PlayerConnect {
 	readonly player: Player;
@@ -37,6 +37,13 @@ export interface PlayerTeleport {
 export interface PlayerMessage {
 	readonly player: Player;
 	message: string;
+	channel: string;
+}
+
+export interface PlayerPrivateMessage {
+	readonly player: Player;
+	readonly target: Player;
+	message: string;
 }
 
 export interface PlayerCommand {
@@ -50,3 +57,24 @@ export interface PlayerChangeBlock {
 	readonly block: Block;
 	readonly world: World;
 }
+
+export interface WorldExplosion {
+	readonly world: World;
+	readonly position: XYZ;
+	readonly radius: number;
+	/**
+	 * Uuid of player, who ignited TNT, if known
+	 */
+	readonly igniter: Nullable<string>;
+	/**
+	 * Positions of blocks destroyed by explosion, can be modified to protect blocks
+	 */
+	blocks: XYZ[];
+}
+
+export interface WorldSettingChange {
+	readonly world: World;
+	readonly key: keyof WorldSettings;
+	readonly value: WorldSettings[keyof WorldSettings];
+	readonly oldValue: WorldSettings[keyof WorldSettings];
+}
@@ -11,14 +11,20 @@ export class ClientPacketHandler {
 	SetBlock = new Emitter<SetBlock>();
 	Position = new Emitter<Position>();
 	Message = new Emitter<Message>();
+	ExtInfo = new Emitter<ExtInfo>();
+	ExtEntry = new Emitter<ExtEntry>();
+	CustomBlockSupportLevel = new Emitter<CustomBlockSupportLevel>();
 
+	Extension = new Emitter<ExtensionPacket>();
 	Unknown = new Emitter<Uint8Array>();
 
 	_decode(buffer: Uint8Array) {
 		const reader = new ClassicPacketReader(buffer);
 
 		while (!reader.isFinished()) {
-			switch (reader.readByte()) {
+			const id = reader.readByte();
+
+			switch (id) {
 				case packetIds.PlayerIdentification:
 					this.PlayerIdentification._emit({
 						protocol: reader.readByte(),
@@ -54,8 +60,35 @@ export class ClientPacketHandler {
 						message: reader.readString(),
 					});
 					break;
+
+				case packetIds.ExtInfo:
+					this.ExtInfo._emit({
+						appName: reader.readString(),
+						extensionCount: reader.readShort(),
+					});
+					break;
+
+				case packetIds.ExtEntry:
+					this.ExtEntry._emit({
+						extName: reader.readString(),
+						version: reader.readInt(),
+					});
+					break;
+
+				case packetIds.CustomBlockSupportLevel:
+					this.CustomBlockSupportLevel._emit({
+						level: reader.readByte(),
+					});
+					break;
 				default:
-					this.Unknown._emit(buffer);
+					if (extensionPacketLenght[id] != undefined) {
+						this.Extension._emit({
+							id: id,
+							data: reader.readBytes(extensionPacketLenght[id] - 1),
+						});
+					} else {
+						this.Unknown._emit(buffer);
+					}
 			}
 		}
 	}
@@ -102,6 +135,32 @@ export class ClientPacketHandler {
 
 		return packet.toPacket();
 	}
+
+	encodeExtInfo(i: ExtInfo): Uint8Array {
+		const packet = new ClassicPacketWriter(packetLenght.ExtInfo);
+		packet.writeByte(packetIds.ExtInfo);
+		packet.writeString(i.appName);
+		packet.writeShort(i.extensionCount);
+
+		return packet.toPacket();
+	}
+
+	encodeExtEntry(i: ExtEntry): Uint8Array {
+		const packet = new ClassicPacketWriter(packetLenght.ExtEntry);
+		packet.writeByte(packetIds.ExtEntry);
+		packet.writeString(i.extName);
+		packet.writeInt(i.version);
+
+		return packet.toPacket();
+	}
+
+	encodeCustomBlockSupportLevel(i: CustomBlockSupportLevel): Uint8Array {
+		const packet = new ClassicPacketWriter(packetLenght.CustomBlockSupportLevel);
+		packet.writeByte(packetIds.CustomBlockSupportLevel);
+		packet.writeByte(i.level);
+
+		return packet.toPacket();
+	}
 }
 
 export const packetIds = {
@@ -109,6 +168,9 @@ export const packetIds = {
 	SetBlock: 0x05,
 	Position: 0x08,
 	Message: 0x0d,
+	ExtInfo: 0x10,
+	ExtEntry: 0x11,
+	CustomBlockSupportLevel: 0x13,
 };
 
 export const packetLenght = {
@@ -116,6 +178,9 @@ export const packetLenght = {
 	SetBlock: 9,
 	Position: 10,
 	Message: 66,
+	ExtInfo: 67,
+	ExtEntry: 69,
+	CustomBlockSupportLevel: 2,
 };
 
 const packetIdsToLenghtTmp: Record<number, number> = {};
@@ -126,6 +191,20 @@ for (const x in packetIds) {
 
 export const packetIdsToLenght = packetIdsToLenghtTmp;
 
+const extensionPacketLenght: Record<number, number> = {};
+
+/**
+ * Allows decoding of packets added by protocol extensions.
+ * They are emitted as raw data by ClientPacketHandler.Extension
+ *
+ * @param id Packet id
+ * @param lenght Lenght of packet (including id)
+ */
+export function registerExtensionPacket(id: number, lenght: number) {
+	extensionPacketLenght[id] = lenght;
+	packetIdsToLenght[id] = lenght;
+}
+
 export interface PlayerIdentification {
 	protocol: number;
 	username: string;
@@ -154,3 +233,22 @@ export interface Message {
 	unused: number;
 	message: string;
 }
+
+export interface ExtInfo {
+	appName: string;
+	extensionCount: number;
+}
+
+export interface ExtEntry {
+	extName: string;
+	version: number;
+}
+
+export interface CustomBlockSupportLevel {
+	level: number;
+}
+
+export interface ExtensionPacket {
+	id: number;
+	data: Uint8Array;
+}
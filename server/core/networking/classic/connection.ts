@@ -7,6 +7,11 @@ import { Server } from '../../server.ts';
 import { protocol6BlockMap } from './blockMaps.ts';
 import { ConnectionHandler } from '../connection.ts';
 import { Denoflate } from "../../deps.ts";
+import { classicExtensions, cpeMagic } from './extensions.ts';
+import { CustomBlockSupportLevel, ExtEntry } from './clientPackets.ts';
+import { EventCallback } from '../../../libs/emitter.ts';
+import { lastBlockId, lastClassicBlockId, maxBlockId } from '../../world/blocks.ts';
+import { BlockDefinition, hasSimpleShape } from '../../world/definitions.ts';
 
 export const serverPackets = new ServerPacketHandler();
 
@@ -23,6 +28,9 @@ export class ClassicConnectionHandler implements ConnectionHandler {
 	readonly port: number;
 	_protocol = Server.targetProtocol;
 	_blockRemap: number[] | null = null;
+	_sentBlockDefinitions: Set<number> = new Set();
+	_extensions: Map<string, number> = new Map();
+	_usesCPE = false;
 
 	blockUpdates: Uint8Array[] = [];
 	client: string;
@@ -48,6 +56,14 @@ export class ClassicConnectionHandler implements ConnectionHandler {
 					return;
 				}
 
+				if (playerInfo.modded == cpeMagic) {
+					await this.negotiateExtensions();
+
+					if (this.supportsExtension('CustomBlocks', 1)) {
+						await this.negotiateCustomBlocks();
+					}
+				}
+
 				this.sendServerInfo(server);
 				
 				const result = await server.authenticatePlayer({
@@ -57,12 +73,12 @@ export class ClassicConnectionHandler implements ConnectionHandler {
 					service: this._overrides?.service ?? 'Minecraft',
 					secret: this._overrides?.secret ?? playerInfo.key,
 					authenticated: this._overrides?.authenticated ?? false,
-				});
+				}, this.getIp());
 
 				if (result.allow) {
 					server.addPlayer(result.auth, this);
 				} else {
-					this.disconnect('You need to log in!');
+					this.disconnect(result.reason ?? 'You need to log in!');
 				}
 			} catch (e) {
 				server.logger.conn('Disconnected player - ' + e);
@@ -108,6 +124,101 @@ export class ClassicConnectionHandler implements ConnectionHandler {
 		}
 	}
 
+	supportsExtension(name: string, version?: number): boolean {
+		const serverVersion = classicExtensions.get(name);
+		const clientVersion = this._extensions.get(name);
+
+		if (serverVersion == undefined || clientVersion == undefined) {
+			return false;
+		}
+
+		return version == undefined || Math.min(serverVersion, clientVersion) >= version;
+	}
+
+	/**
+	 * Exchanges ExtInfo and ExtEntry packets with client.
+	 * Resolves after receiving all client's extensions (or after timeout)
+	 */
+	protected negotiateExtensions(): Promise<void> {
+		this._usesCPE = true;
+
+		return new Promise((res) => {
+			let remaining = -1;
+
+			const finish = () => {
+				clearTimeout(timeout);
+				this._clientPackets.ExtEntry.remove(onEntry);
+				res();
+			};
+
+			const onEntry: EventCallback<ExtEntry> = ({ value }) => {
+				this._extensions.set(value.extName, value.version);
+				remaining -= 1;
+
+				if (remaining == 0) {
+					finish();
+				}
+			};
+
+			const timeout = setTimeout(() => {
+				this._server.logger.conn(`Connection ${this.ip}:${this.port} didn't finish extension negotiation in time!`);
+				finish();
+			}, 5000);
+
+			this._clientPackets.ExtInfo.once(({ value }) => {
+				this.client = value.appName;
+				remaining = value.extensionCount;
+
+				if (remaining <= 0) {
+					finish();
+				}
+			});
+
+			this._clientPackets.ExtEntry.on(onEntry);
+
+			try {
+				this._send(serverPackets.encodeExtInfo({ appName: `${Server.softwareName} ${Server.softwareVersion}`, extensionCount: classicExtensions.size }));
+
+				for (const [extName, version] of classicExtensions) {
+					this._send(serverPackets.encodeExtEntry({ extName, version }));
+				}
+			} catch (e) {
+				this.handleError(e);
+				finish();
+			}
+		});
+	}
+
+	/**
+	 * Sends CustomBlocks support level and waits for client's one. Client, that doesn't respond in time, is treated as one without support
+	 */
+	protected negotiateCustomBlocks(): Promise<void> {
+		return new Promise((res) => {
+			const onLevel: EventCallback<CustomBlockSupportLevel> = () => {
+				clearTimeout(timeout);
+				res();
+			};
+
+			const timeout = setTimeout(() => {
+				this._server.logger.conn(`Connection ${this.ip}:${this.port} didn't send custom block support level in time!`);
+				this._clientPackets.CustomBlockSupportLevel.remove(onLevel);
+				this._extensions.delete('CustomBlocks');
+				res();
+			}, 5000);
+
+			this._clientPackets.CustomBlockSupportLevel.once(onLevel);
+
+			try {
+				this._send(serverPackets.encodeCustomBlockSupportLevel({ level: 1 }));
+			} catch (e) {
+				this.handleError(e);
+				clearTimeout(timeout);
+				this._clientPackets.CustomBlockSupportLevel.remove(onLevel);
+				res();
+			}
+		});
+	}
+
 	setProtocol(protocol: number): boolean {
 		this._protocol = protocol;
 
@@ -143,6 +254,8 @@ export class ClassicConnectionHandler implements ConnectionHandler {
 			}
 
 			this.sendingWorld = true;
+			this._blockRemap = this.createBlockRemap(world);
+			await this.sendBlockDefinitions(world);
 			await this._send(serverPackets.encodeLevelInitialize());
 			await this.sendTeleport(this._player, this._player.position, this._player.yaw, this._player.pitch);
 
@@ -187,6 +300,92 @@ export class ClassicConnectionHandler implements ConnectionHandler {
 		}
 	}
 
+	/**
+	 * Creates block remap for world, replacing blocks not supported by client with their fallbacks
+	 *
+	 * @returns Remap or null, if client supports all blocks
+	 */
+	protected createBlockRemap(world: World): number[] | null {
+		const customBlocks = this.supportsExtension('CustomBlocks', 1);
+		const blockDefinitions = this.supportsExtension('BlockDefinitions', 1);
+		const legacyMap = this._protocol == 0x06 ? protocol6BlockMap : null;
+		const remap: number[] = [];
+		let changed = false;
+
+		for (let id = 0; id <= maxBlockId; id++) {
+			// Plugin blocks without world's definition are unknown to client, even if it supports custom blocks
+			const useFallback = (id > lastBlockId && (!blockDefinitions || !world.blockDefinitions.has(id))) || (id > lastClassicBlockId && !customBlocks);
+			const block = useFallback ? world.getFallbackBlockId(id) : id;
+			remap[id] = legacyMap ? legacyMap[block] ?? 1 : block;
+			changed ||= remap[id] != id;
+		}
+
+		return changed ? remap : null;
+	}
+
+	/**
+	 * Sends custom blocks of world and removes ones from previous world
+	 */
+	protected async sendBlockDefinitions(world: World) {
+		if (!this.supportsExtension('BlockDefinitions', 1)) {
+			return;
+		}
+
+		for (const id of this._sentBlockDefinitions) {
+			if (!world.blockDefinitions.has(id)) {
+				await this._send(serverPackets.encodeRemoveBlockDefinition({ id }));
+			}
+		}
+
+		this._sentBlockDefinitions.clear();
+
+		for (const def of world.blockDefinitions.definitions.values()) {
+			await this._send(this.encodeBlockDefinition(def));
+			this._sentBlockDefinitions.add(def.id);
+		}
+	}
+
+	protected encodeBlockDefinition(def: BlockDefinition): Uint8Array {
+		const base = {
+			id: def.id,
+			name: def.name,
+			solidity: def.solidity,
+			speed: def.speed,
+			topTexture: def.textures.top,
+			bottomTexture: def.textures.bottom,
+			transmitsLight: def.transmitsLight ? 1 : 0,
+			walkSound: def.walkSound,
+			fullBright: def.fullBright ? 1 : 0,
+			draw: def.draw,
+			fogDensity: def.fog[0],
+			fogR: def.fog[1],
+			fogG: def.fog[2],
+			fogB: def.fog[3],
+		};
+
+		if (hasSimpleShape(def) || !this.supportsExtension('BlockDefinitionsExt', 2)) {
+			return serverPackets.encodeDefineBlock({
+				...base,
+				sideTexture: def.textures.front,
+				shape: def.sprite ? 0 : def.max[1],
+			});
+		}
+
+		return serverPackets.encodeDefineBlockExt({
+			...base,
+			leftTexture: def.textures.left,
+			rightTexture: def.textures.right,
+			frontTexture: def.textures.front,
+			backTexture: def.textures.back,
+			minX: def.min[0],
+			minY: def.min[1],
+			minZ: def.min[2],
+			maxX: def.max[0],
+			maxY: def.max[1],
+			maxZ: def.max[2],
+		});
+	}
+
 	setBlock(x: number, y: number, z: number, block: number): void {
 		if (this._blockRemap) {
 			block = this._blockRemap[block];
@@ -206,6 +405,38 @@ export class ClassicConnectionHandler implements ConnectionHandler {
 		}
 	}
 
+	setBlocks(blocks: [number, number, number, number][]): void {
+		const world = this._player?.world;
+
+		if (!world || !this.supportsExtension('BulkBlockUpdate', 1)) {
+			blocks.forEach(([x, y, z, block]) => this.setBlock(x, y, z, block));
+			return;
+		}
+
+		for (let i = 0; i < blocks.length; i += 256) {
+			const part = blocks.slice(i, i + 256);
+
+			const packet = serverPackets.encodeBulkBlockUpdate({
+				indices: part.map(([x, y, z]) => world.getIndex(x, y, z)),
+				blocks: part.map(([, , , block]) => (this._blockRemap ? this._blockRemap[block] : block)),
+			});
+
+			if (this.sendingWorld) {
+				this.blockUpdates.push(packet);
+			} else {
+				this._send(packet);
+			}
+		}
+	}
+
+	setOperator(op: boolean) {
+		try {
+			this._send(serverPackets.encodeUserType({ type: op ? 0x64 : 0x00 }));
+		} catch (e) {
+			this.handleError(e);
+		}
+	}
+
 	sendMessage(player: Nullable<Player>, text: string) {
 		try {
 			const pid = player != null ? player.numId : 0;
@@ -0,0 +1,26 @@
+// Classic Protocol Extension (CPE) - https://wiki.vg/Classic_Protocol_Extension
+
+/**
+ * Value of "unused" byte in PlayerIdentification, that marks client supporting CPE
+ */
+export const cpeMagic = 0x42;
+
+/**
+ * Extensions supported by server, mapped to their version
+ */
+export const classicExtensions: Map<string, number> = new Map([
+	['BulkBlockUpdate', 1],
+	['CustomBlocks', 1],
+	['BlockDefinitions', 1],
+	['BlockDefinitionsExt', 2],
+]);
+
+/**
+ * Adds extension to list of ones announced to clients
+ *
+ * @param name Extension name
+ * @param version Extension version
+ */
+export function registerClassicExtension(name: string, version: number) {
+	classicExtensions.set(name, version);
+}
@@ -32,6 +32,12 @@ export class ClassicPacketReader {
 		return x;
 	}
 
+	readInt(): number {
+		const x = this.view.getInt32(this.pos);
+		this.pos += 4;
+		return x;
+	}
+
 	readString(): string {
 		const x = this.buffer.subarray(this.pos, this.pos + 64);
 		this.pos += 64;
@@ -44,6 +50,12 @@ export class ClassicPacketReader {
 		return x;
 	}
 
+	readBytes(lenght: number): Uint8Array {
+		const x = this.buffer.subarray(this.pos, this.pos + lenght);
+		this.pos += lenght;
+		return x;
+	}
+
 	isFinished(): boolean {
 		return this.pos >= this.buffer.length;
 	}
@@ -82,6 +94,12 @@ export class ClassicPacketWriter {
 		return this;
 	}
 
+	writeInt(n: number) {
+		this.view.setInt32(this.pos, n);
+		this.pos += 4;
+		return this;
+	}
+
 	writeString(n: string) {
 		const b = textEncoder.encode(n.replaceAll(classicTextRegex, '_'));
 
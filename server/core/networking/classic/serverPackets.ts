@@ -22,6 +22,13 @@ export class ServerPacketHandler {
 	Message = new Emitter<Message>();
 	Disconnect = new Emitter<Disconnect>();
 	UserType = new Emitter<UserType>();
+	ExtInfo = new Emitter<ExtInfo>();
+	ExtEntry = new Emitter<ExtEntry>();
+	BulkBlockUpdate = new Emitter<BulkBlockUpdate>();
+	CustomBlockSupportLevel = new Emitter<CustomBlockSupportLevel>();
+	DefineBlock = new Emitter<DefineBlock>();
+	RemoveBlockDefinition = new Emitter<RemoveBlockDefinition>();
+	DefineBlockExt = new Emitter<DefineBlockExt>();
 
 	Unknown = new Emitter<Uint8Array>();
 
@@ -132,6 +139,95 @@ export class ServerPacketHandler {
 					type: reader.readByte(),
 				});
 				break;
+			case packetIds.ExtInfo:
+				this.ExtInfo._emit({
+					appName: reader.readString(),
+					extensionCount: reader.readShort(),
+				});
+				break;
+			case packetIds.ExtEntry:
+				this.ExtEntry._emit({
+					extName: reader.readString(),
+					version: reader.readInt(),
+				});
+				break;
+			case packetIds.BulkBlockUpdate: {
+				const count = reader.readByte() + 1;
+				const indices: number[] = [];
+				const blocks: number[] = [];
+
+				for (let i = 0; i < 256; i++) {
+					indices.push(reader.readInt());
+				}
+
+				for (let i = 0; i < 256; i++) {
+					blocks.push(reader.readByte());
+				}
+
+				this.BulkBlockUpdate._emit({
+					indices: indices.slice(0, count),
+					blocks: blocks.slice(0, count),
+				});
+				break;
+			}
+			case packetIds.CustomBlockSupportLevel:
+				this.CustomBlockSupportLevel._emit({
+					level: reader.readByte(),
+				});
+				break;
+			case packetIds.DefineBlock:
+				this.DefineBlock._emit({
+					id: reader.readByte(),
+					name: reader.readString(),
+					solidity: reader.readByte(),
+					speed: reader.readByte(),
+					topTexture: reader.readByte(),
+					sideTexture: reader.readByte(),
+					bottomTexture: reader.readByte(),
+					transmitsLight: reader.readByte(),
+					walkSound: reader.readByte(),
+					fullBright: reader.readByte(),
+					shape: reader.readByte(),
+					draw: reader.readByte(),
+					fogDensity: reader.readByte(),
+					fogR: reader.readByte(),
+					fogG: reader.readByte(),
+					fogB: reader.readByte(),
+				});
+				break;
+			case packetIds.RemoveBlockDefinition:
+				this.RemoveBlockDefinition._emit({
+					id: reader.readByte(),
+				});
+				break;
+			case packetIds.DefineBlockExt:
+				this.DefineBlockExt._emit({
+					id: reader.readByte(),
+					name: reader.readString(),
+					solidity: reader.readByte(),
+					speed: reader.readByte(),
+					topTexture: reader.readByte(),
+					leftTexture: reader.readByte(),
+					rightTexture: reader.readByte(),
+					frontTexture: reader.readByte(),
+					backTexture: reader.readByte(),
+					bottomTexture: reader.readByte(),
+					transmitsLight: reader.readByte(),
+					walkSound: reader.readByte(),
+					fullBright: reader.readByte(),
+					minX: reader.readByte(),
+					minY: reader.readByte(),
+					minZ: reader.readByte(),
+					maxX: reader.readByte(),
+					maxY: reader.readByte(),
+					maxZ: reader.readByte(),
+					draw: reader.readByte(),
+					fogDensity: reader.readByte(),
+					fogR: reader.readByte(),
+					fogG: reader.readByte(),
+					fogB: reader.readByte(),
+				});
+				break;
 			default:
 				this.Unknown._emit(buffer);
 		}
@@ -291,6 +387,110 @@ export class ServerPacketHandler {
 
 		return packet.buffer;
 	}
+
+	encodeExtInfo(i: ExtInfo): Uint8Array {
+		const packet = new ClassicPacketWriter(packetLenght.ExtInfo);
+		packet.writeByte(packetIds.ExtInfo);
+		packet.writeString(i.appName);
+		packet.writeShort(i.extensionCount);
+
+		return packet.buffer;
+	}
+
+	encodeExtEntry(i: ExtEntry): Uint8Array {
+		const packet = new ClassicPacketWriter(packetLenght.ExtEntry);
+		packet.writeByte(packetIds.ExtEntry);
+		packet.writeString(i.extName);
+		packet.writeInt(i.version);
+
+		return packet.buffer;
+	}
+
+	encodeBulkBlockUpdate(i: BulkBlockUpdate): Uint8Array {
+		const packet = new ClassicPacketWriter(packetLenght.BulkBlockUpdate);
+		packet.writeByte(packetIds.BulkBlockUpdate);
+		packet.writeByte(i.indices.length - 1);
+
+		for (let x = 0; x < 256; x++) {
+			packet.writeInt(i.indices[x] ?? 0);
+		}
+
+		for (let x = 0; x < 256; x++) {
+			packet.writeByte(i.blocks[x] ?? 0);
+		}
+
+		return packet.buffer;
+	}
+
+	encodeCustomBlockSupportLevel(i: CustomBlockSupportLevel): Uint8Array {
+		const packet = new ClassicPacketWriter(packetLenght.CustomBlockSupportLevel);
+		packet.writeByte(packetIds.CustomBlockSupportLevel);
+		packet.writeByte(i.level);
+
+		return packet.buffer;
+	}
+
+	encodeDefineBlock(i: DefineBlock): Uint8Array {
+		const packet = new ClassicPacketWriter(packetLenght.DefineBlock);
+		packet.writeByte(packetIds.DefineBlock);
+		packet.writeByte(i.id);
+		packet.writeString(i.name);
+		packet.writeByte(i.solidity);
+		packet.writeByte(i.speed);
+		packet.writeByte(i.topTexture);
+		packet.writeByte(i.sideTexture);
+		packet.writeByte(i.bottomTexture);
+		packet.writeByte(i.transmitsLight);
+		packet.writeByte(i.walkSound);
+		packet.writeByte(i.fullBright);
+		packet.writeByte(i.shape);
+		packet.writeByte(i.draw);
+		packet.writeByte(i.fogDensity);
+		packet.writeByte(i.fogR);
+		packet.writeByte(i.fogG);
+		packet.writeByte(i.fogB);
+
+		return packet.buffer;
+	}
+
+	encodeRemoveBlockDefinition(i: RemoveBlockDefinition): Uint8Array {
+		const packet = new ClassicPacketWriter(packetLenght.RemoveBlockDefinition);
+		packet.writeByte(packetIds.RemoveBlockDefinition);
+		packet.writeByte(i.id);
+
+		return packet.buffer;
+	}
+
+	encodeDefineBlockExt(i: DefineBlockExt): Uint8Array {
+		const packet = new ClassicPacketWriter(packetLenght.DefineBlockExt);
+		packet.writeByte(packetIds.DefineBlockExt);
+		packet.writeByte(i.id);
+		packet.writeString(i.name);
+		packet.writeByte(i.solidity);
+		packet.writeByte(i.speed);
+		packet.writeByte(i.topTexture);
+		packet.writeByte(i.leftTexture);
+		packet.writeByte(i.rightTexture);
+		packet.writeByte(i.frontTexture);
+		packet.writeByte(i.backTexture);
+		packet.writeByte(i.bottomTexture);
+		packet.writeByte(i.transmitsLight);
+		packet.writeByte(i.walkSound);
+		packet.writeByte(i.fullBright);
+		packet.writeByte(i.minX);
+		packet.writeByte(i.minY);
+		packet.writeByte(i.minZ);
+		packet.writeByte(i.maxX);
+		packet.writeByte(i.maxY);
+		packet.writeByte(i.maxZ);
+		packet.writeByte(i.draw);
+		packet.writeByte(i.fogDensity);
+		packet.writeByte(i.fogR);
+		packet.writeByte(i.fogG);
+		packet.writeByte(i.fogB);
+
+		return packet.buffer;
+	}
 }
 
 export const packetIds = {
@@ -309,6 +509,13 @@ export const packetIds = {
 	Message: 0x0d,
 	Disconnect: 0x0e,
 	UserType: 0x0f,
+	ExtInfo: 0x10,
+	ExtEntry: 0x11,
+	CustomBlockSupportLevel: 0x13,
+	DefineBlock: 0x23,
+	RemoveBlockDefinition: 0x24,
+	DefineBlockExt: 0x25,
+	BulkBlockUpdate: 0x26,
 };
 
 export const packetLenght = {
@@ -327,6 +534,13 @@ export const packetLenght = {
 	Message: 66,
 	Disconnect: 65,
 	UserType: 2,
+	ExtInfo: 67,
+	ExtEntry: 69,
+	CustomBlockSupportLevel: 2,
+	DefineBlock: 80,
+	RemoveBlockDefinition: 2,
+	DefineBlockExt: 88,
+	BulkBlockUpdate: 1282,
 };
 
 const packetIdsToLenght: Record<number, number> = {};
@@ -335,6 +549,16 @@ for (const x in packetIds) {
 	packetIdsToLenght[(<Holder<number>>packetIds)[x]] = (<Holder<number>>packetLenght)[x];
 }
 
+/**
+ * Registers lenght of packet added by protocol extension
+ *
+ * @param id Packet id
+ * @param lenght Lenght of packet (including id)
+ */
+export function registerExtensionPacket(id: number, lenght: number) {
+	packetIdsToLenght[id] = lenght;
+}
+
 export interface ServerIdentification {
 	protocol: number;
 	name: string;
@@ -418,3 +642,72 @@ export interface Disconnect {
 export interface UserType {
 	type: number;
 }
+
+export interface ExtInfo {
+	appName: string;
+	extensionCount: number;
+}
+
+export interface ExtEntry {
+	extName: string;
+	version: number;
+}
+
+export interface BulkBlockUpdate {
+	indices: number[];
+	blocks: number[];
+}
+
+export interface CustomBlockSupportLevel {
+	level: number;
+}
+
+export interface DefineBlock {
+	id: number;
+	name: string;
+	solidity: number;
+	speed: number;
+	topTexture: number;
+	sideTexture: number;
+	bottomTexture: number;
+	transmitsLight: number;
+	walkSound: number;
+	fullBright: number;
+	shape: number;
+	draw: number;
+	fogDensity: number;
+	fogR: number;
+	fogG: number;
+	fogB: number;
+}
+
+export interface RemoveBlockDefinition {
+	id: number;
+}
+
+export interface DefineBlockExt {
+	id: number;
+	name: string;
+	solidity: number;
+	speed: number;
+	topTexture: number;
+	leftTexture: number;
+	rightTexture: number;
+	frontTexture: number;
+	backTexture: number;
+	bottomTexture: number;
+	transmitsLight: number;
+	walkSound: number;
+	fullBright: number;
+	minX: number;
+	minY: number;
+	minZ: number;
+	maxX: number;
+	maxY: number;
+	maxZ: number;
+	draw: number;
+	fogDensity: number;
+	fogR: number;
+	fogG: number;
+	fogB: number;
+}
@@ -13,6 +13,8 @@ export interface ConnectionHandler {
 
 	setBlock(x: number, y: number, z: number, block: number): void;
 
+	setBlocks(blocks: [number, number, number, number][]): void;
+
 	sendMessage(player: Nullable<Player>, text: string): void;
 
 	disconnect(message: string): void;
@@ -30,6 +32,10 @@ export interface ConnectionHandler {
 	getIp(): string;
 
 	getClient(): string;
+
+	supportsExtension(name: string, version?: number): boolean;
+
+	setOperator(op: boolean): void;
 }
 
 export abstract class WrappedConnectionHandler implements ConnectionHandler {
@@ -47,6 +53,9 @@ export abstract class WrappedConnectionHandler implements ConnectionHandler {
 	setBlock(x: number, y: number, z: number, block: number): void {
 		return this.getHandler()?.setBlock(x, y, z, block);
 	}
+	setBlocks(blocks: [number, number, number, number][]): void {
+		return this.getHandler()?.setBlocks(blocks);
+	}
 	sendMessage(player: Nullable<Player>, text: string): void {
 		return this.getHandler()?.sendMessage(player, text);
 	}
@@ -74,7 +83,13 @@ export abstract class WrappedConnectionHandler implements ConnectionHandler {
 	getClient(): string {
 		return this.getHandler()?.getClient() ?? "UNDEFINED";
 	}
+	supportsExtension(name: string, version?: number): boolean {
+		return this.getHandler()?.supportsExtension(name, version) ?? false;
+	}
 	tick() {
 		this.getHandler()?.tick()
 	}
+	setOperator(op: boolean): void {
+		return this.getHandler()?.setOperator(op);
+	}
 }
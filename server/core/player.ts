@@ -1,6 +1,6 @@
 import { ConnectionHandler } from './networking/connection.ts';
-import { Server } from './server.ts';
-import { Holder, Nullable, Position, Services, XYZ, TriState, BlockPos } from './types.ts';
+import { Group, Server } from './server.ts';
+import { Holder, Nullable, Position, Services, XYZ, TriState, BlockPos, PermissionSource } from './types.ts';
 import { World } from './world/world.ts';
 import * as vec from '../libs/vec.ts';
 import * as event from './events.ts';
@@ -14,15 +14,21 @@ export class Player {
 	readonly service: Services;
 
 	displayName: Nullable<string> = null;
+	lastPrivateMessage: Nullable<string>;
+	chatChannel: string;
 	client: string;
 	position: [number, number, number];
 	pitch: number;
 	yaw: number;
 	permissions: Holder<Nullable<boolean>>;
 	groups: string[];
+	permissionExpiry: Holder<number>;
+	groupExpiry: Holder<number>;
+	ignored: string[];
 	world: World;
 	isInWorld: boolean;
 	isConnected: boolean;
+	isOperator = false;
 
 	checksCache = {
 		lastPlacedBlockTime: 0,
@@ -42,11 +48,6 @@ export class Player {
 		this.service = service;
 
 		this.numId = server.getFreePlayerId();
-
-		if (this.numId == -1) {
-			throw 'Server full!';
-		}
-
 		server._takenPlayerIds.push(this.numId);
 		this.uuid = uuid;
 		this.client = client;
@@ -62,10 +63,15 @@ export class Player {
 			this.permissions = data.permissions;
 			this.groups = [...data.groups];
 			this.groups.includes('default') ? null : this.groups.push('default');
-			this.world = server.getWorld(data.world) ?? server.getDefaultWorld();
+			this.permissionExpiry = data.permissionExpiry ?? {};
+			this.groupExpiry = data.groupExpiry ?? {};
+			const world = server.getWorld(data.world);
+			this.world = world && !world.isFull() ? world : server.getDefaultWorld();
 			this.pitch = data.pitch;
 			this.yaw = data.yaw;
 			this.displayName = data.displayName ?? null;
+			this.ignored = data.ignored ?? [];
+			this.chatChannel = data.chatChannel ?? server.config.defaultChatChannel;
 		} else {
 			this.world = server.getDefaultWorld();
 
@@ -74,8 +80,15 @@ export class Player {
 			this.pitch = this.world.spawnPoint.pitch;
 			this.permissions = {};
 			this.groups = ['default'];
+			this.permissionExpiry = {};
+			this.groupExpiry = {};
+			this.ignored = [];
+			this.chatChannel = server.config.defaultChatChannel;
 		}
 
+		this.lastPrivateMessage = null;
+		this.removeExpired();
+
 		connection.setPlayer(this);
 	}
 
@@ -86,6 +99,12 @@ export class Player {
 	 */
 	async changeWorld(world: World) {
 		if (this.world != world) {
+			if (world.isFull()) {
+				this.sendMessage(this._server.getMessage('worldFull', { world: world.name }));
+				return;
+			}
+
+
 			const result = this._server.event.PlayerChangeWorld._emit({ player: this, from: this.world, to: world });
 
 			if (result.continue) {
@@ -141,6 +160,49 @@ export class Player {
 		this._connectionHandler.sendMessage(player ?? null, message);
 	}
 
+	/**
+	 * Sends private message to other player
+	 *
+	 * @param target Receiver of message
+	 * @param message Message
+	 * @returns True if message was delivered
+	 */
+	sendPrivateMessage(target: Player, message: string): boolean {
+		const mute = this._server.bans.getMute(this.uuid);
+
+		if (mute) {
+			this.sendMessage(this._server.getMessage('muted', { reason: mute.reason }));
+			return false;
+		}
+
+		if (target.isIgnoring(this)) {
+			this.sendMessage(this._server.getMessage('privateMessageIgnored', { player: target.getDisplayName() }));
+			return false;
+		}
+
+		const result = this._server.event.PlayerPrivateMessage._emit({ player: this, target, message: message.replaceAll('&', '%') });
+
+		if (!result.continue) {
+			return false;
+		}
+
+		this.sendMessage(this._server.getMessage('privateMessageSent', { player: target.getDisplayName(), message: result.value.message }));
+		target.sendMessage(this._server.getMessage('privateMessageReceived', { player: this.getDisplayName(), message: result.value.message }));
+
+		this.lastPrivateMessage = target.uuid;
+		target.lastPrivateMessage = this.uuid;
+		return true;
+	}
+
+	/**
+	 * Checks if player ignores messages from other player
+	 *
+	 * @param player Other player
+	 */
+	isIgnoring(player: Player): boolean {
+		return this.ignored.includes(player.uuid);
+	}
+
 	/**
 	 * Executes command as player
 	 *
@@ -171,7 +233,7 @@ export class Player {
 
 		this._server.event.PlayerDisconnect._emit({ player: this, reason: reason ?? 'Disconnected!' });
 
-		this._server.sendChatMessage(this._server.getMessage('leave', { player: this.username }), this);
+		this._server.sendChatMessage(this._server.getMessage('leave', this.getPlaceholders()), this);
 		this._connectionHandler.disconnect(reason ?? 'Disconnected!');
 
 		this._server.files.savePlayer(this.uuid, this.getPlayerData());
@@ -233,11 +295,16 @@ export class Player {
 	 * @param value Boolean if it's set, null if it isn't (aka default)
 	 */
 	checkPermissionExact(permission: string): TriState {
+		// Expired permissions and groups shouldn't wait for periodic check
+		if (this.removeExpired()) {
+			this.updateOperatorStatus();
+		}
+
 		if (this.permissions[permission] != null) {
 			return this.permissions[permission] ? TriState.TRUE : TriState.FALSE;
 		}
-		for (const groupName of this.groups) {
-			const x = this._server.groups.get(groupName)?.checkPermissionExact(permission);
+		for (const group of this._server.resolveGroups(this.groups)) {
+			const x = group.checkPermissionExact(permission);
 
 			if (x != null) {
 				return x ? TriState.TRUE : TriState.FALSE;
@@ -247,6 +314,15 @@ export class Player {
 		return TriState.DEFAULT;
 	}
 
+	/**
+	 * Removes temporary permissions and groups which expired
+	 *
+	 * @returns True if anything was removed
+	 */
+	removeExpired(): boolean {
+		return removeExpired(this);
+	}
+
 	/**
 	 * Do not use unless you know what are you doing
 	 *
@@ -271,12 +347,16 @@ export class Player {
 			uuid: this.uuid,
 			permissions: this.permissions,
 			groups: this.groups,
+			permissionExpiry: this.permissionExpiry,
+			groupExpiry: this.groupExpiry,
 			username: this.username,
 			world: this.world.fileName,
 			pitch: this.pitch,
 			yaw: this.yaw,
 			ip: this.ip,
 			displayName: this.displayName,
+			ignored: this.ignored,
+			chatChannel: this.chatChannel,
 		};
 	}
 
@@ -289,6 +369,38 @@ export class Player {
 		return this.displayName ?? this.username;
 	}
 
+	/**
+	 * Returns player's group with highest weight. If multiple have same weight, first one is used
+	 */
+	getPrimaryGroup(): Nullable<Group> {
+		let out: Nullable<Group> = null;
+
+		for (const name of this.groups) {
+			const group = this._server.groups.get(name);
+
+			if (group && (out == null || group.weight > out.weight)) {
+				out = group;
+			}
+		}
+
+		return out;
+	}
+
+	/**
+	 * Returns values used in chat and join/leave messages
+	 */
+	getPlaceholders(): Holder<string> {
+		const group = this.getPrimaryGroup();
+
+		return {
+			player: this.getDisplayName(),
+			prefix: group?.prefix ?? '',
+			suffix: group?.suffix ?? '',
+			group: group?.getName() ?? '',
+			world: this.world.name,
+		};
+	}
+
 	/**
 	 * Returns player's position
 	 * 
@@ -314,6 +426,12 @@ export class Player {
 			return;
 		}
 
+		if (!this.world.checkRegionFlag(this, x, y, z, 'enter') && this.world.checkRegionFlag(this, ...this.position, 'enter')) {
+			this.sendMessage(this._server.getMessage('regionNoEnter', {}));
+			this._connectionHandler.sendTeleport(this, this.position, this.yaw, this.pitch);
+			return;
+		}
+
 		const result = this._server.event.PlayerMove._emit({ player: this, position: { x, y, z, pitch, yaw } });
 
 		if (result.continue) {
@@ -347,9 +465,21 @@ export class Player {
 		if (!this.isInWorld) {
 			return;
 		}
-		let block = this._server.getBlock(blockId);
+		let block = this.world.getBlockById(blockId);
 
-		if (!block || !this.world.isInBounds(x, y, z) || vec.dist([x, y, z], this.position) > 6 || !block.placeable) {
+		if (!block || !this.world.isInBounds(x, y, z) || vec.dist([x, y, z], this.position) > 6 || (!block.placeable && !(block.unbreakable && this.isOperator))) {
+			this._connectionHandler.setBlock(x, y, z, this.world.getBlockId(x, y, z));
+			return;
+		}
+
+		if (!this.canModifyWorld()) {
+			this.sendMessage(this._server.getMessage('noBuildPermission', { world: this.world.name }));
+			this._connectionHandler.setBlock(x, y, z, this.world.getBlockId(x, y, z));
+			return;
+		}
+
+		if (!this.world.checkRegionFlag(this, x, y, z, 'build')) {
+			this.sendMessage(this._server.getMessage('regionProtected', {}));
 			this._connectionHandler.setBlock(x, y, z, this.world.getBlockId(x, y, z));
 			return;
 		}
@@ -374,8 +504,10 @@ export class Player {
 		const result = this._server.event.PlayerBlockPlace._emit({ player: this, position: { x, y, z, yaw: 0, pitch: 0 }, block, world: this.world });
 
 		if (result.continue) {
+			const oldBlock = this.world.getBlockId(x, y, z);
 			this.world.setBlockId(x, y, z, block.numId);
-			this.world.lazyTickNeighborBlocksAndSelf(x, y, z);
+			this.world.history.add({ x, y, z, oldBlock, newBlock: block.numId, player: this.uuid, time: Date.now() });
+			block.onPlace(this.world, { x, y, z }, this);
 		} else {
 			this._connectionHandler.setBlock(x, y, z, this.world.getBlockId(x, y, z));
 		}
@@ -390,7 +522,25 @@ export class Player {
 		}
 		const block = this.world.getBlock(x, y, z);
 
-		if (!block || !this.world.isInBounds(x, y, z) || block.unbreakable) {
+		if (this.getTemp<boolean>('blockInspector')) {
+			this._connectionHandler.setBlock(x, y, z, this.world.getBlockId(x, y, z));
+			this.executeCommand(`blockinfo ${x} ${y} ${z}`);
+			return false;
+		}
+
+		if (!block || !this.world.isInBounds(x, y, z) || (block.unbreakable && !this.isOperator)) {
+			this._connectionHandler.setBlock(x, y, z, this.world.getBlockId(x, y, z));
+			return false;
+		}
+
+		if (!this.canModifyWorld()) {
+			this.sendMessage(this._server.getMessage('noBuildPermission', { world: this.world.name }));
+			this._connectionHandler.setBlock(x, y, z, this.world.getBlockId(x, y, z));
+			return false;
+		}
+
+		if (!this.world.checkRegionFlag(this, x, y, z, 'break')) {
+			this.sendMessage(this._server.getMessage('regionProtected', {}));
 			this._connectionHandler.setBlock(x, y, z, this.world.getBlockId(x, y, z));
 			return false;
 		}
@@ -408,7 +558,8 @@ export class Player {
 
 		if (result.continue) {
 			this.world.setBlockId(x, y, z, 0);
-			this.world.lazyTickNeighborBlocksAndSelf(x, y, z);
+			this.world.history.add({ x, y, z, oldBlock: block.numId, newBlock: 0, player: this.uuid, time: Date.now() });
+			block.onBreak(this.world, { x, y, z }, this);
 			return true;
 		} else {
 			this._connectionHandler.setBlock(x, y, z, this.world.getBlockId(x, y, z));
@@ -416,6 +567,29 @@ export class Player {
 		}
 	}
 
+	/**
+	 * Updates operator status using `classic.op` permission and sends it to client if it changed.
+	 * Operators can place and break unbreakable blocks
+	 *
+	 * @param force Sends status even if it didn't change
+	 */
+	updateOperatorStatus(force = false) {
+		const op = this.checkPermission('classic.op').get(false);
+
+		if (op != this.isOperator || force) {
+			this.isOperator = op;
+			this._connectionHandler.setOperator(op);
+		}
+	}
+
+	/**
+	 * Checks if player can place and break blocks in current world.
+	 * Uses `world.<name>.build` permission, which defaults to world's `building` setting
+	 */
+	canModifyWorld(): boolean {
+		return !this.world.settings.readOnly && this.checkPermission(`world.${this.world.fileName}.build`).get(this.world.settings.building);
+	}
+
 	/**
 	 * Do not use unless you know what are you doing
 	 */
@@ -433,11 +607,28 @@ export class Player {
 		if (message.startsWith('/')) {
 			this.executeCommand(message.slice(1));
 		} else {
-			const result = this._server.event.PlayerMessage._emit({ player: this, message: message.replaceAll('&', '%') });
+			this.chat(message);
+		}
+	}
 
-			if (result.continue) {
-				this._server.sendChatMessage(this._server.getMessage('chat', { player: this.getDisplayName(), message: result.value.message }), this);
-			}
+	/**
+	 * Sends chat message as player
+	 *
+	 * @param message Message, color codes are escaped
+	 * @param channel Chat channel, defaults to player's active one
+	 */
+	chat(message: string, channel?: string) {
+		const mute = this._server.bans.getMute(this.uuid);
+
+		if (mute) {
+			this.sendMessage(this._server.getMessage('muted', { reason: mute.reason }));
+			return;
+		}
+
+		const result = this._server.event.PlayerMessage._emit({ player: this, message: message.replaceAll('&', '%'), channel: channel ?? this.chatChannel });
+
+		if (result.continue && !this._server.sendChannelMessage(result.value.channel, result.value.message, this)) {
+			this.sendMessage(this._server.getMessage('noChatChannel', { channel: result.value.channel }));
 		}
 	}
 
@@ -509,11 +700,21 @@ export interface PlayerData {
 	uuid: string;
 	permissions: { [i: string]: true | false | null };
 	groups: string[];
+	/**
+	 * Time (in milliseconds) when temporary permissions expire
+	 */
+	permissionExpiry?: Holder<number>;
+	/**
+	 * Time (in milliseconds) when temporary group memberships expire
+	 */
+	groupExpiry?: Holder<number>;
 	world: string;
 	pitch: number;
 	yaw: number;
 	ip: string;
 	displayName: Nullable<string>;
+	ignored?: string[];
+	chatChannel?: string;
 }
 
 /**
@@ -541,6 +742,8 @@ export class VirtualPlayerHolder {
 			throw 'No player!';
 		}
 		this.playerData = playerData;
+		this.playerData.permissionExpiry ??= {};
+		this.playerData.groupExpiry ??= {};
 
 		this.joinEvent = (ev: EventContext<event.PlayerConnect>) => {
 			if (ev.value.player.uuid == uuid) {
@@ -548,6 +751,8 @@ export class VirtualPlayerHolder {
 				if (this.player) {
 					this.player.groups = this.playerData.groups;
 					this.player.permissions = this.playerData.permissions;
+					this.player.permissionExpiry = this.playerData.permissionExpiry ?? {};
+					this.player.groupExpiry = this.playerData.groupExpiry ?? {};
 					this.player.displayName = this.playerData.displayName;
 				}
 			}
@@ -568,6 +773,8 @@ export class VirtualPlayerHolder {
 	 * Saves all changes
 	 */
 	finish() {
+		this.player?.updateOperatorStatus();
+
 		if (!this.player && this.playerData) {
 			this._server.files.savePlayer(this.uuid, this.playerData);
 			this.player = null;
@@ -577,37 +784,75 @@ export class VirtualPlayerHolder {
 		}
 	}
 
+	/**
+	 * Releases holder without saving changes, for read only access
+	 */
+	discard() {
+		this._server.event.PlayerConnect.remove(this.joinEvent);
+		this._server.event.PlayerDisconnect.remove(this.leaveEvent);
+	}
+
 	/**
 	 * Sets player's permission
 	 *
 	 * @param permission Permission
 	 * @param value TriScate
+	 * @param duration Time (in milliseconds) after which permission is removed, permanent if not set
 	 */
-	setPermission(permission: string, value: TriState) {
+	setPermission(permission: string, value: TriState, duration?: number) {
 		const perms: Holder<Nullable<boolean>> = this.player?.permissions ?? this.playerData.permissions;
+		const expiry = this.getExpiryData().permissionExpiry;
 
 		if (value == TriState.DEFAULT) {
 			delete perms[permission];
 		} else {
 			perms[permission] = value.value;
 		}
+
+		if (duration != undefined && value != TriState.DEFAULT) {
+			expiry[permission] = Date.now() + duration;
+		} else {
+			delete expiry[permission];
+		}
 	}
 
 	/**
-	 * Sets player's permission
+	 * Checks if player has permission
 	 *
 	 * @param permission Permission
-	 * @param value Boolean for setting, null for deletion
+	 * @returns Boolean if it's set, null if it isn't (aka default)
 	 */
 	checkPermission(permission: string): Nullable<boolean> {
+		return this.checkPermissionSource(permission)?.value ?? null;
+	}
+
+	/**
+	 * Checks if player has permission, excluding wildcart ones
+	 *
+	 * @param permission Permission
+	 * @returns Boolean if it's set, null if it isn't (aka default)
+	 */
+	checkPermissionExact(permission: string): Nullable<boolean> {
+		return this.checkPermissionExactSource(permission)?.value ?? null;
+	}
+
+	/**
+	 * Checks if player has permission and returns where it was set
+	 *
+	 * @param permission Permission
+	 * @returns Source of permission, null if it isn't set
+	 */
+	checkPermissionSource(permission: string): Nullable<PermissionSource> {
+		removeExpired(this.getExpiryData());
+
 		{
-			const check = this.checkPermissionExact(permission);
+			const check = this.checkPermissionExactSource(permission);
 			if (check != null) {
 				return check;
 			}
 		}
 		{
-			const check = this.checkPermissionExact('*');
+			const check = this.checkPermissionExactSource('*');
 			if (check != null) {
 				return check;
 			}
@@ -619,7 +864,7 @@ export class VirtualPlayerHolder {
 		for (let x = 0; x < splited.length; x++) {
 			perm += splited[x] + '.';
 
-			const check = this.checkPermissionExact(perm + '*');
+			const check = this.checkPermissionExactSource(perm + '*');
 			if (check != null) {
 				return check;
 			}
@@ -628,27 +873,19 @@ export class VirtualPlayerHolder {
 		return null;
 	}
 
-	/**
-	 * Checks if player has permission, excluding wildcart ones
-	 *
-	 * @param permission Permission
-	 * @param value Boolean if it's set, null if it isn't (aka default)
-	 */
-	checkPermissionExact(permission: string): Nullable<boolean> {
+	protected checkPermissionExactSource(permission: string): Nullable<PermissionSource> {
 		const perms: Holder<Nullable<boolean>> = this.player?.permissions ?? this.playerData.permissions;
 		const groups: string[] = this.player?.groups ?? this.playerData.groups;
 
 		if (perms[permission] != null) {
-			return !!perms[permission];
+			return { value: !!perms[permission], group: null, node: permission };
 		}
 
-		for (const groupName in groups) {
-			const group = this._server.groups.get(groupName);
+		for (const group of this._server.resolveGroups(groups)) {
+			const x = group.checkPermissionExact(permission);
 
-			if (group != null) {
-				if (group.permissions[permission] != null) {
-					return !!group.permissions[permission];
-				}
+			if (x != null) {
+				return { value: x, group: group.name, node: permission };
 			}
 		}
 
@@ -659,9 +896,24 @@ export class VirtualPlayerHolder {
 	 * Adds player to group
 	 *
 	 * @param group
+	 * @param duration Time (in milliseconds) after which player is removed from group, permanent if not set
 	 */
-	addGroup(group: string) {
+	addGroup(group: string, duration?: number) {
 		this.player ? arrayAddOnce(this.player.groups, group) : arrayAddOnce(this.playerData.groups, group);
+		const expiry = this.getExpiryData().groupExpiry;
+
+		if (duration != undefined) {
+			expiry[group] = Date.now() + duration;
+		} else {
+			delete expiry[group];
+		}
+	}
+
+	/**
+	 * Returns player's groups
+	 */
+	getGroups(): string[] {
+		return this.player?.groups ?? this.playerData.groups;
 	}
 
 	/**
@@ -671,6 +923,7 @@ export class VirtualPlayerHolder {
 	 */
 	removeGroup(group: string) {
 		this.player ? arrayRemove(this.player.groups, group) : arrayRemove(this.playerData.groups, group);
+		delete this.getExpiryData().groupExpiry[group];
 	}
 
 	/**
@@ -693,6 +946,40 @@ export class VirtualPlayerHolder {
 	getName() {
 		return this.player?.username ?? this.playerData.username;
 	}
+
+	protected getExpiryData(): ExpiringData {
+		return this.player ?? <ExpiringData>this.playerData;
+	}
+}
+
+interface ExpiringData {
+	permissions: Holder<Nullable<boolean>>;
+	groups: string[];
+	permissionExpiry: Holder<number>;
+	groupExpiry: Holder<number>;
+}
+
+function removeExpired(data: ExpiringData): boolean {
+	const now = Date.now();
+	let removed = false;
+
+	for (const permission in data.permissionExpiry) {
+		if (data.permissionExpiry[permission] <= now) {
+			delete data.permissions[permission];
+			delete data.permissionExpiry[permission];
+			removed = true;
+		}
+	}
+
+	for (const group in data.groupExpiry) {
+		if (data.groupExpiry[group] <= now) {
+			arrayRemove(data.groups, group);
+			delete data.groupExpiry[group];
+			removed = true;
+		}
+	}
+
+	return removed;
 }
 
 function arrayAddOnce(a: unknown[], b: unknown) {
@@ -702,5 +989,5 @@ function arrayAddOnce(a: unknown[], b: unknown) {
 function arrayRemove(a: unknown[], b: unknown) {
 	const x = a.indexOf(b);
 
-	x > -1 ? a.splice(x) : null;
+	x > -1 ? a.splice(x, 1) : null;
 }
@@ -3,12 +3,14 @@ import { Player, PlayerData, VirtualPlayerHolder } from './player.ts';
 import { GenerationStatusListener, PhysicsLevel, World, WorldData, WorldGenerator } from './world/world.ts';
 
 import * as event from './events.ts';
-import { AuthData, Holder, GroupInterface, Plugin, Nullable, XYZ, HelpPage, TriState } from './types.ts';
+import { AuthData, AuthResult, Holder, GroupInterface, Plugin, Nullable, XYZ, HelpPage, TriState, ChatChannel, TntTrigger, isOwnKey } from './types.ts';
 import { ConnectionHandler } from './networking/connection.ts';
 import { setupGenerators, emptyGenerator } from './builtin/generators.ts';
 import { Semver } from './deps.ts';
-import { blocks, blockIds, blocksIdsToName, Block } from './world/blocks.ts';
+import { blocks, blockIds, blocksIdsToName, Block, BlockRegistry } from './world/blocks.ts';
 import { setupCommands } from './builtin/commands.ts';
+import { setupWorldEdit } from './builtin/worldedit.ts';
+import { BanList, BanListData } from './bans.ts';
 import { CommandDispatcher, CommandSyntaxError, LiteralArgumentBuilder } from "../libs/brigadier/index.ts";
 import { CommandInfo, CommandSource, ErrorTypes } from "./commands.ts";
 
@@ -69,6 +71,7 @@ export class Server {
 		PlayerMove: new Emitter<event.PlayerMove>(true, this.eventErrorBuilder('PlayerMove')),
 		PlayerColides: new Emitter<event.PlayerColides>(true, this.eventErrorBuilder('PlayerColides')),
 		PlayerMessage: new Emitter<event.PlayerMessage>(true, this.eventErrorBuilder('PlayerMessage')),
+		PlayerPrivateMessage: new Emitter<event.PlayerPrivateMessage>(true, this.eventErrorBuilder('PlayerPrivateMessage')),
 		PlayerTeleport: new Emitter<event.PlayerTeleport>(true, this.eventErrorBuilder('PlayerTeleport')),
 		PlayerBlockBreak: new Emitter<event.PlayerChangeBlock>(true, this.eventErrorBuilder('PlayerBlockBreak')),
 		PlayerBlockPlace: new Emitter<event.PlayerChangeBlock>(true, this.eventErrorBuilder('PlayerBlockPlace')),
@@ -78,6 +81,8 @@ export class Server {
 		ServerCommandRegistration: new Emitter<Server>(false, this.eventErrorBuilder('ServerCommandRegistration')),
 		WorldLoaded: new Emitter<World>(false, this.eventErrorBuilder('WorldLoaded')),
 		WorldUnloaded: new Emitter<World>(false, this.eventErrorBuilder('WorldUnloaded')),
+		WorldSettingChange: new Emitter<event.WorldSettingChange>(true, this.eventErrorBuilder('WorldSettingChange')),
+		WorldExplosion: new Emitter<event.WorldExplosion>(true, this.eventErrorBuilder('WorldExplosion')),
 	});
 
 	readonly worlds: Map<string, World> = new Map();
@@ -91,8 +96,24 @@ export class Server {
 	readonly blocks = blocks;
 	readonly blockIds = blockIds;
 	readonly blockIdToName = blocksIdsToName;
+	readonly blockRegistry = new BlockRegistry();
 
-	readonly groups: Map<string, Group> = new Map();
+	protected _groups: Map<string, Group> = new Map();
+	/**
+	 * Groups by name. They are changed with `addGroup` and `removeGroup`, so cached group order stays valid
+	 */
+	readonly groups: ReadonlyMap<string, Group> = this._groups;
+	/**
+	 * Results of `resolveGroups`, keyed by group names. Cleared with `invalidateGroupCache`
+	 */
+	protected resolvedGroups: Map<string, readonly Group[]> = new Map();
+
+	bans: BanList = new BanList(this);
+
+	/**
+	 * Whitelisted players, lowercase username mapped to uuid (null if player never joined)
+	 */
+	readonly whitelist: Map<string, Nullable<string>> = new Map();
 
 	readonly classicTextRegex = /[^ -~]/gi;
 
@@ -103,6 +124,7 @@ export class Server {
 	protected _autoSaveInterval = -1;
 	protected _autoBackupInterval = -1;
 	protected _worldTickInterval = -1;
+	protected _expiryCheckInterval = -1;
 
 	protected readonly _commandDispatcher = new CommandDispatcher<CommandSource>();
 
@@ -146,11 +168,11 @@ export class Server {
 			if (this.files.existConfig('groups')) {
 				const temp = <Holder<GroupInterface>>this.files.getConfig('groups');
 				for (const x in temp) {
-					this.groups.set(x, new Group(temp[x]));
+					this._groups.set(x, new Group(temp[x]));
 				}
 				this.logger.debug(`Loaded groups`);
 			} else {
-				this.groups.set('default', new Group({
+				this._groups.set('default', new Group({
 					name: 'default',
 					permissions: {
 						'commands.spawn': true,
@@ -162,6 +184,18 @@ export class Server {
 				this.logger.debug(`Creating default group`);
 			}
 
+			if (this.files.existConfig('bans')) {
+				this.bans = new BanList(this, <Partial<BanListData>>this.files.getConfig('bans'));
+				this.logger.debug(`Loaded bans`);
+			}
+
+			if (this.files.existConfig('whitelist')) {
+				for (const [username, uuid] of Object.entries(<Holder<Nullable<string>>>this.files.getConfig('whitelist'))) {
+					this.whitelist.set(username, uuid);
+				}
+				this.logger.debug(`Loaded whitelist`);
+			}
+
 			if (this.files.existConfig('.uuidcache')) {
 				this._playerUUIDCache = new Map(Object.entries(<Holder<string>>this.files.getConfig('.uuidcache')));
 				this.logger.debug(`Loaded player cache`);
@@ -170,7 +204,7 @@ export class Server {
 			}
 
 			this.files.saveConfig('config', this.config);
-			this.files.saveConfig('groups', this.groups);
+			this.files.saveConfig('groups', Object.fromEntries(this.groups));
 
 			setupGenerators(this);
 			this.logger.debug(`Default generators are setuped!`);
@@ -213,7 +247,16 @@ export class Server {
 				}, 1000 * 60 * this.config.backupInterval);
 			}
 
+			this._expiryCheckInterval = setInterval(() => {
+				for (const [, player] of this.players) {
+					if (player.removeExpired()) {
+						player.updateOperatorStatus();
+					}
+				}
+			}, 1000 * 60);
+
 			setupCommands(this, this._commandsInfo);
+			setupWorldEdit(this);
 			this.logger.debug(`Added default commands`);
 
 			try {
@@ -278,6 +321,7 @@ export class Server {
 			clearInterval(this._worldTickInterval);
 			clearInterval(this._autoBackupInterval);
 			clearInterval(this._autoSaveInterval);
+			clearInterval(this._expiryCheckInterval);
 		} catch (e) {
 			this.logger.warn("Couldn't clear intervals!");
 			this.logger.warn(e);
@@ -285,8 +329,8 @@ export class Server {
 
 		this.logger.log('&6Closing server...');
 		this.files.saveConfig('config', this.config);
-		this.files.saveConfig('groups', this.groups);
-		this.files.saveConfig('.uuidcache', this._playerUUIDCache);
+		this.files.saveConfig('groups', Object.fromEntries(this.groups));
+		this.files.saveConfig('.uuidcache', Object.fromEntries(this._playerUUIDCache));
 		this.logger.debug(`Saved default configs`);
 		try {
 			this.event.ServerShutdown._emit(this);
@@ -325,6 +369,28 @@ export class Server {
 			conn.disconnect('Player with this username is already in game!');
 			return;
 		}
+
+		{
+			const ban = this.bans.getBan(auth.uuid ?? 'offline-' + auth.username.toLowerCase(), conn.getIp());
+
+			if (ban) {
+				this.logger.conn(`User ${auth.username} (${auth.uuid}) is banned!`);
+				conn.disconnect(this.bans.getBanMessage(ban));
+				return;
+			}
+		}
+
+		if (this.config.whitelist && !this.isWhitelisted(auth.uuid ?? 'offline-' + auth.username.toLowerCase(), auth.username)) {
+			this.logger.conn(`User ${auth.username} (${auth.uuid}) isn't whitelisted!`);
+			conn.disconnect(this.getMessage('notWhitelisted', {}));
+			return;
+		}
+
+		if (this.getFreePlayerId() == -1 || (this.players.size >= this.config.maxPlayerCount && !this.hasReservedSlot(auth.uuid ?? 'offline-' + auth.username.toLowerCase()))) {
+			this.logger.conn(`User ${auth.username} (${auth.uuid}) couldn't join, server is full!`);
+			conn.disconnect(this.getMessage('serverFull', {}));
+			return;
+		}
 	
 		const authProvider = auth.authProvider ? `/${auth.authProvider}` : '';
 		this.logger.conn(
@@ -355,9 +421,32 @@ export class Server {
 		}
 	
 		await player._connectionHandler.sendWorld(player.world);
+		player.updateOperatorStatus(true);
 		player.world._addPlayer(player);
 		player.isInWorld = true;
-		this.sendChatMessage(this.getMessage('join', { player: player.getDisplayName() }), player);
+		this.sendChatMessage(this.getMessage('join', player.getPlaceholders()), player);
+	}
+
+	/**
+	 * Authenticates player and rejects banned ones
+	 *
+	 * @param data Authentication data
+	 * @param ip Player's ip address (optional)
+	 * @returns validated auth data and checks if player can join
+	 */
+	async authenticatePlayer(data: AuthData, ip?: string): Promise<AuthResult> {
+		const result = await this.authenticate(data);
+
+		if (result.allow) {
+			const ban = this.bans.getBan(result.auth.uuid ?? 'offline-' + result.auth.username.toLowerCase(), ip);
+
+			if (ban) {
+				this.logger.conn(`User ${result.auth.username} (${result.auth.uuid}) is banned!`);
+				return { auth: result.auth, allow: false, reason: this.bans.getBanMessage(ban) };
+			}
+		}
+
+		return result;
 	}
 
 	/**
@@ -366,7 +455,7 @@ export class Server {
 	 * @param data Authentication data
 	 * @returns validated auth data and checks if player can join
 	 */
-	authenticatePlayer(data: AuthData): Promise<{ auth: AuthData; allow: boolean }> {
+	protected authenticate(data: AuthData): Promise<AuthResult> {
 		return new Promise((r) => r({ auth: data, allow: true }));
 	}
 
@@ -438,6 +527,48 @@ export class Server {
 		this.logger.chat(message);
 	}
 
+	/**
+	 * Sends message from player to chat channel
+	 *
+	 * @param channelName Name of channel from `config.chatChannels`
+	 * @param message Unformatted message
+	 * @param player Sender
+	 * @returns False if channel doesn't exist or player can't use it
+	 */
+	sendChannelMessage(channelName: string, message: string, player: Player): boolean {
+		const channel = this.getChatChannel(channelName);
+
+		if (!channel || !this.canUseChatChannel(player, channel)) {
+			return false;
+		}
+
+		const formatted = this.getMessage(channel.format, { ...player.getPlaceholders(), channel: channelName, message });
+		const receivers = channel.scope == 'world' ? player.world.players.values() : this.players.values();
+
+		for (const p of receivers) {
+			if (!p.isIgnoring(player) && (channel.scope != 'permission' || this.canUseChatChannel(p, channel))) {
+				p.sendMessage(formatted, player);
+			}
+		}
+
+		this.logger.chat(channel.scope == 'global' ? formatted : `[${channelName}] ${formatted}`);
+		return true;
+	}
+
+	/**
+	 * Returns chat channel by name
+	 */
+	getChatChannel(name: string): Nullable<ChatChannel> {
+		return isOwnKey(this.config.chatChannels, name) ? this.config.chatChannels[name] : null;
+	}
+
+	/**
+	 * Checks if player can send and receive messages from channel
+	 */
+	canUseChatChannel(player: Player, channel: ChatChannel): boolean {
+		return player.checkPermission(channel.permission).get(channel.scope != 'permission');
+	}
+
 	/**
 	 * Saves passed world instance
 	 *
@@ -445,6 +576,10 @@ export class Server {
 	 * @returns If saving was successful
 	 */
 	async saveWorld(world: World) {
+		if (world.history.dirty) {
+			world.history.dirty = !this.files.saveBlockHistory(world.fileName, world.history.serialize());
+		}
+
 		return await this.files.saveWorld(world.fileName, world);
 	}
 
@@ -780,6 +915,223 @@ export class Server {
 	}
 
 
+	/**
+	 * Returns groups in order they should be checked for permissions.
+	 * Groups are sorted by weight (higher first, ties keep list order) and each one
+	 * is followed by groups it inherits from. Default group is always checked.
+	 *
+	 * @param names Names of player's groups
+	 * @param includeDefault Adds default group if it's missing
+	 */
+	resolveGroups(names: string[], includeDefault = true): readonly Group[] {
+		const key = `${includeDefault}:${names.join(',')}`;
+		const cached = this.resolvedGroups.get(key);
+
+		if (cached) {
+			return cached;
+		}
+
+		const out: Group[] = [];
+		const visited = new Set<string>();
+
+		const sortByWeight = (list: readonly string[]) =>
+			list
+				.map((name) => this.groups.get(name))
+				.filter((group): group is Group => group != undefined)
+				.sort((a, b) => b.weight - a.weight);
+
+		const visit = (group: Group) => {
+			if (visited.has(group.name)) {
+				return;
+			}
+			visited.add(group.name);
+			out.push(group);
+
+			for (const parent of sortByWeight(group.inherits)) {
+				visit(parent);
+			}
+		};
+
+		for (const group of sortByWeight(!includeDefault || names.includes('default') ? names : [...names, 'default'])) {
+			visit(group);
+		}
+
+		this.resolvedGroups.set(key, out);
+		return out;
+	}
+
+	/**
+	 * Clears cached results of `resolveGroups`. Needs to be called after adding groups or changing their weight or parents
+	 */
+	protected invalidateGroupCache() {
+		this.resolvedGroups.clear();
+	}
+
+	/**
+	 * Adds group, replacing one with same name
+	 */
+	addGroup(group: Group) {
+		this._groups.set(group.name, group);
+		this.invalidateGroupCache();
+	}
+
+	/**
+	 * Removes group
+	 *
+	 * @returns False if group doesn't exist or it's default one
+	 */
+	removeGroup(name: string): boolean {
+		if (name == 'default' || !this._groups.delete(name)) {
+			return false;
+		}
+
+		this.invalidateGroupCache();
+		return true;
+	}
+
+	/**
+	 * Changes weight of group
+	 */
+	setGroupWeight(group: Group, weight: number) {
+		group._setWeight(weight);
+		this.invalidateGroupCache();
+	}
+
+	/**
+	 * Makes group inherit permissions from parent
+	 *
+	 * @returns False if parent already inherits from group
+	 */
+	addGroupParent(group: Group, parent: Group): boolean {
+		if (this.resolveGroups([parent.name], false).includes(group)) {
+			return false;
+		}
+
+		if (!group.inherits.includes(parent.name)) {
+			group._setInherits([...group.inherits, parent.name]);
+			this.invalidateGroupCache();
+		}
+
+		return true;
+	}
+
+	/**
+	 * Removes parent of group
+	 *
+	 * @param parent Name of parent group
+	 */
+	removeGroupParent(group: Group, parent: string) {
+		group._setInherits(group.inherits.filter((x) => x != parent));
+		this.invalidateGroupCache();
+	}
+
+	/**
+	 * Checks if player can join full server, using `server.reservedslot` permission
+	 *
+	 * @param uuid Player's uuid
+	 */
+	hasReservedSlot(uuid: string): boolean {
+		if (!this.files.existPlayer(uuid)) {
+			// New players only have default group, checked in same order as `Player.checkPermission`
+			const permission = 'server.reservedslot';
+			const parts = permission.split('.');
+			const nodes = [permission, '*', ...parts.map((_, i) => parts.slice(0, i + 1).join('.') + '.*')];
+
+			for (const node of nodes) {
+				for (const group of this.resolveGroups(['default'])) {
+					const value = group.checkPermissionExact(node);
+
+					if (value != null) {
+						return value;
+					}
+				}
+			}
+
+			return false;
+		}
+
+		const holder = new VirtualPlayerHolder(uuid, this);
+		const out = holder.checkPermission('server.reservedslot') ?? false;
+		holder.discard();
+
+		return out;
+	}
+
+	/**
+	 * Checks if player is on whitelist. Entries without uuid are resolved through uuid cache,
+	 * so they still match players, who changed username since being added
+	 *
+	 * @param uuid Player's uuid
+	 * @param username Player's username
+	 */
+	isWhitelisted(uuid: string, username: string): boolean {
+		const name = username.toLowerCase();
+
+		for (const [entry, value] of this.whitelist) {
+			const entryUuid = value ?? this.getPlayerIdFromName(entry) ?? (entry == name ? uuid : null);
+
+			if (entryUuid != uuid) {
+				continue;
+			}
+
+			// Keeps entry under current username, so it can be listed and removed with it
+			if (value == null || entry != name) {
+				this.whitelist.delete(entry);
+				this.whitelist.set(name, uuid);
+				this.saveWhitelist();
+			}
+
+			return true;
+		}
+
+		return false;
+	}
+
+	/**
+	 * Adds player to whitelist
+	 *
+	 * @param username Player's username
+	 */
+	addToWhitelist(username: string) {
+		const uuid = this.getPlayerIdFromName(username);
+		const holder = uuid != null && this.files.existPlayer(uuid) ? new VirtualPlayerHolder(uuid, this) : null;
+		holder?.discard();
+
+		for (const [name, value] of this.whitelist) {
+			if (uuid != null && value == uuid) {
+				this.whitelist.delete(name);
+			}
+		}
+
+		// Known players are stored under their current username
+		this.whitelist.set((holder?.getName() ?? username).toLowerCase(), uuid);
+		this.saveWhitelist();
+	}
+
+	/**
+	 * Removes player from whitelist
+	 *
+	 * @param username Player's username
+	 * @returns True if player was whitelisted
+	 */
+	removeFromWhitelist(username: string): boolean {
+		const uuid = this.getPlayerIdFromName(username);
+		let out = this.whitelist.delete(username.toLowerCase());
+
+		for (const [name, value] of this.whitelist) {
+			if (uuid != null && value == uuid) {
+				out = this.whitelist.delete(name) || out;
+			}
+		}
+
+		this.saveWhitelist();
+		return out;
+	}
+
+	saveWhitelist() {
+		this.files.saveConfig('whitelist', Object.fromEntries(this.whitelist));
+	}
+
 	getPlayerHolderByName(username: string): Nullable<VirtualPlayerHolder> {
 		const uuid = this.getPlayerIdFromName(username);
 		if (!uuid) return null;
@@ -808,7 +1160,7 @@ export class Server {
 	}
 
 	/**
-	 * Converts block id to Block instance
+	 * Converts block id to built-in Block instance
 	 *
 	 * @param id Block id
 	 * @returns Block or null if invalid
@@ -817,7 +1169,15 @@ export class Server {
 		return (<Holder<Block>>blocks)[blocksIdsToName[id]] ?? null;
 	}
 
-	getBlock = Server.getBlock;
+	/**
+	 * Converts block id to Block instance, including ones registered by plugins
+	 *
+	 * @param id Block id
+	 * @returns Block or null if invalid
+	 */
+	getBlock(id: number): Nullable<Block> {
+		return this.blockRegistry.get(id);
+	}
 
 	/**
 	 * Formats date
@@ -842,15 +1202,59 @@ export class Group implements GroupInterface {
 	prefix?: string;
 	suffix?: string;
 	permissions: { [i: string]: Nullable<boolean> };
+	protected _weight: number;
+	protected _inherits: readonly string[];
 
 	constructor(data: GroupInterface) {
 		this.name = data.name;
 		this.displayName = data.displayName;
 		this.prefix = data.prefix;
 		this.suffix = data.suffix;
+		this._weight = data.weight ?? 0;
+		this._inherits = data.inherits ?? [];
 		this.permissions = data.permissions;
 	}
 
+	/**
+	 * Changed with `Server.setGroupWeight`
+	 */
+	get weight(): number {
+		return this._weight;
+	}
+
+	/**
+	 * Changed with `Server.addGroupParent` and `Server.removeGroupParent`
+	 */
+	get inherits(): readonly string[] {
+		return this._inherits;
+	}
+
+	/**
+	 * Internal, use `Server.setGroupWeight` instead
+	 */
+	_setWeight(weight: number) {
+		this._weight = weight;
+	}
+
+	/**
+	 * Internal, use `Server.addGroupParent` or `Server.removeGroupParent` instead
+	 */
+	_setInherits(inherits: readonly string[]) {
+		this._inherits = inherits;
+	}
+
+	toJSON(): GroupInterface {
+		return {
+			name: this.name,
+			displayName: this.displayName,
+			prefix: this.prefix,
+			suffix: this.suffix,
+			weight: this._weight,
+			inherits: this._inherits,
+			permissions: this.permissions,
+		};
+	}
+
 	getName() {
 		return this.displayName ?? this.name;
 	}
@@ -930,6 +1334,9 @@ export interface IFileHelper {
 	existWorld(name: string): boolean;
 	listWorlds(): string[];
 
+	saveBlockHistory(world: string, data: Uint8Array): boolean;
+	getBlockHistory(world: string): Nullable<Uint8Array>;
+
 	savePlayer(uuid: string, player: PlayerData): boolean;
 	deletePlayer(uuid: string): boolean;
 	getPlayer(uuid: string): Nullable<PlayerData>;
@@ -949,6 +1356,17 @@ const defaultConfig = {
 	backupInterval: 1440,
 
 	defaultWorldName: 'main',
+	blockHistoryLimit: 1000000,
+	blockResendThreshold: 4096,
+	scheduledTickBudget: 2048,
+
+	tntTriggers: ['break', 'fire', 'command'] as TntTrigger[],
+	tntFuseTicks: 40,
+	tntExplosionRadius: 4,
+	explosionBudget: 4,
+
+	worldEditMaxBlocks: 2097152,
+	worldEditUndoLimit: 10,
 
 	onlineMode: true,
 
@@ -960,18 +1378,47 @@ const defaultConfig = {
 
 	allowOffline: true,
 
+	whitelist: false,
+
+	rankLadders: {} as { [i: string]: string[] },
+
+	defaultChatChannel: 'global',
+	chatChannels: {
+		global: { scope: 'global', permission: 'chat.channel.global', format: 'chat' },
+		world: { scope: 'world', permission: 'chat.channel.world', format: 'chatWorld' },
+		staff: { scope: 'permission', permission: 'chat.channel.staff', format: 'chatStaff' },
+	} as { [i: string]: ChatChannel },
+
 	enableModernMCProtocol: true,
 
 	messages: {
 		join: '&e$PLAYER joined the game',
 		leave: '&e$PLAYER left the game',
-		chat: '&f<$PLAYER> $MESSAGE',
+		chat: '$PREFIX&f<$PLAYER$SUFFIX&f> $MESSAGE',
+		chatWorld: '&7[$WORLD] $PREFIX&f<$PLAYER$SUFFIX&f> $MESSAGE',
+		chatStaff: '&c[Staff] $PREFIX&f<$PLAYER$SUFFIX&f> $MESSAGE',
+		noChatChannel: "&cYou can't use chat channel $CHANNEL!",
 		noCommand: "&cThis command doesn't exist or you don't have access to it",
 		serverStopped: 'Server stopped!',
 		cheatDistance: 'Cheat detected: Distance',
 		cheatTile: 'Cheat detected: Tile type',
 		cheatClick: 'Cheat detected: Too much clicking!',
 		cheatSpam: "You've spammed too much",
+		worldFull: '&cWorld $WORLD is full!',
+		noBuildPermission: "&cYou can't build in this world!",
+		regionProtected: '&cThis area is protected!',
+		regionNoEnter: "&cYou can't enter this area!",
+		banned: 'You are banned! Reason: $REASON',
+		tempBanned: 'Banned for $TIME! Reason: $REASON',
+		kicked: 'Kicked! Reason: $REASON',
+		muted: '&cYou are muted! Reason: $REASON',
+		promoted: '&e$PLAYER was promoted to $GROUP by $ISSUER',
+		demoted: '&e$PLAYER was demoted to $GROUP by $ISSUER',
+		notWhitelisted: "You aren't whitelisted on this server!",
+		serverFull: 'Server is full!',
+		privateMessageSent: '&7[me -> $PLAYER] &f$MESSAGE',
+		privateMessageReceived: '&7[$PLAYER -> me] &f$MESSAGE',
+		privateMessageIgnored: '&c$PLAYER is ignoring you!',
 	} as {[i: string]: string},
 };
 
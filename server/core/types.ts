@@ -57,16 +57,72 @@ export interface AuthData {
 
 export type Holder<T> = { [i: string]: T };
 
+/**
+ * Checks if key is object's own property, so inherited ones (like `toString` or `__proto__`) aren't accepted
+ */
+export function isOwnKey<T extends object>(object: T, key: PropertyKey): key is keyof T {
+	return Object.hasOwn(object, key);
+}
+
+export interface AuthResult {
+	auth: AuthData;
+	allow: boolean;
+	/**
+	 * Message shown to player, if authentication failed
+	 */
+	reason?: string;
+}
+
 
 export interface GroupInterface {
 	name: string;
 	displayName?: string;
 	prefix?: string;
 	suffix?: string;
+	/**
+	 * Groups with higher weight are more important, used for prefixes and suffixes
+	 */
+	weight?: number;
+	/**
+	 * Names of groups this group inherits permissions from
+	 */
+	inherits?: readonly string[];
 
 	permissions: { [i: string]: Nullable<boolean> };
 }
 
+export interface ChatChannel {
+	/**
+	 * Who receives messages: everyone, players in sender's world or players with channel's permission
+	 */
+	scope: 'global' | 'world' | 'permission';
+	/**
+	 * Permission needed to use channel. Global and world channels are allowed by default
+	 */
+	permission: string;
+	/**
+	 * Key of message format in `config.messages`
+	 */
+	format: string;
+}
+
+/**
+ * Ways in which TNT can be ignited: breaking it (with `tnt.ignite` permission), fire or lava next to it, or `/ignite` command
+ */
+export type TntTrigger = 'break' | 'fire' | 'command';
+
+export interface PermissionSource {
+	value: boolean;
+	/**
+	 * Name of group which granted permission, null if it was set on player directly
+	 */
+	group: Nullable<string>;
+	/**
+	 * Matched permission node, can be a wildcard
+	 */
+	node: string;
+}
+
 export interface Plugin {
 	id: string;
 	name: string;
@@ -1,5 +1,7 @@
-import type { Holder } from '../types.ts';
-import { World } from './world.ts';
+import type { BlockPos, Holder, Nullable } from '../types.ts';
+import type { Player } from '../player.ts';
+import { PhysicsLevel, World } from './world.ts';
+import { createClassicTree } from './generation/tree.ts';
 
 export class Block {
 	unbreakable: boolean;
@@ -9,6 +11,14 @@ export class Block {
 	placeable: boolean;
 	passLight: boolean;
 	tickable = false;
+	/**
+	 * Delay (in ticks) of update scheduled after neighbour change
+	 */
+	tickDelay = 1;
+	/**
+	 * Block shown to clients, that don't know this block
+	 */
+	fallback = 1;
 
 	constructor(id: number, placeable: boolean = true, type: BlockTypes = 'full', unbreakable: boolean = false, passLight = false) {
 		this.numId = id;
@@ -19,32 +29,55 @@ export class Block {
 		this.passLight = passLight;
 	}
 
-	update(_world: World, _x: number, _y: number, _z: number, _lazy: boolean, _tick: bigint): boolean {
+	/**
+	 * Called when block is ticked (only if it's tickable)
+	 *
+	 * @param scheduled True for scheduled ticks (for example after neighbour change), false for random ticks
+	 * @returns False if block should be ticked again in next tick
+	 */
+	update(_world: World, _x: number, _y: number, _z: number, _scheduled: boolean, _tick: bigint): boolean {
 		return true;
 	}
+
+	/**
+	 * Called when one of six neighbour blocks changes. By default schedules tick of tickable blocks
+	 *
+	 * @param pos Position of this block
+	 * @param fromPos Position of changed block
+	 */
+	onNeighborChanged(world: World, pos: BlockPos, _fromPos: BlockPos) {
+		if (this.tickable) {
+			world.scheduleTick(pos.x, pos.y, pos.z, this.tickDelay);
+		}
+	}
+
+	/**
+	 * Called after block is placed by player
+	 */
+	onPlace(_world: World, _pos: BlockPos, _player: Nullable<Player>) {}
+
+	/**
+	 * Called after block is broken by player
+	 */
+	onBreak(_world: World, _pos: BlockPos, _player: Nullable<Player>) {}
+
+	/**
+	 * Called after block was removed or replaced with other block
+	 *
+	 * @param pos Position of removed block
+	 */
+	onRemove(_world: World, _pos: BlockPos) {}
 }
 
-export class GrassBlock {
-	unbreakable: boolean;
-	numId: number;
-	type: BlockTypes;
-	solid: boolean;
-	placeable: boolean;
-	passLight: boolean;
+export class GrassBlock extends Block {
 	tickable = true;
 
 	constructor(id: number, placeable: boolean = true) {
-		this.numId = id;
-		this.type = 'full';
-		this.unbreakable = false;
-		this.solid = true;
-		this.placeable = placeable;
-		this.passLight = false;
+		super(id, placeable);
 	}
 
-	update(world: World, x: number, y: number, z: number, _lazy: boolean, _tick: bigint) {
-		const upBlock = world.getBlock(x, y + 1, z);
-		if (!upBlock?.passLight) {
+	update(world: World, x: number, y: number, z: number, _scheduled: boolean, _tick: bigint) {
+		if (!world.isLit(x, y + 1, z)) {
 			world.setBlockId(x, y, z, blocks.dirt.numId);
 		} else {
 			for (let u = 0; u < 4; u++) {
@@ -52,8 +85,7 @@ export class GrassBlock {
 				const y2 = Math.floor((Math.random() - 0.5) * 4);
 				const z2 = Math.floor((Math.random() - 0.5) * 6);
 
-				const tmp = world.getBlock(x + x2, y + y2 + 1, z + z2);
-				if (world.getBlockId(x + x2, y + y2, z + z2) == blocks.dirt.numId && (!tmp?.solid || tmp.passLight)) {
+				if (world.getBlockId(x + x2, y + y2, z + z2) == blocks.dirt.numId && world.isLit(x + x2, y + y2 + 1, z + z2)) {
 					world.setBlockId(x + x2, y + y2, z + z2, this.numId);
 					break;
 				}
@@ -64,6 +96,257 @@ export class GrassBlock {
 	}
 }
 
+export class FluidBlock extends Block {
+	readonly fluid: FluidTypes;
+	readonly flowing: boolean;
+	tickable = true;
+
+	constructor(id: number, fluid: FluidTypes, flowing: boolean, flowDelay: number) {
+		super(id, false, 'fluid', false);
+		this.fluid = fluid;
+		this.flowing = flowing;
+		this.tickDelay = flowDelay;
+	}
+
+	update(world: World, x: number, y: number, z: number, scheduled: boolean, _tick: bigint): boolean {
+		// Fluids only flow after being placed or after neighbour changes
+		if (world.physics != PhysicsLevel.FULL || !scheduled) {
+			return true;
+		}
+
+		const flowingId = this.fluid == 'water' ? blocks.flowingWater.numId : blocks.flowingLava.numId;
+
+		for (const [x2, y2, z2] of flowDirections) {
+			const tX = x + x2;
+			const tY = y + y2;
+			const tZ = z + z2;
+
+			if (!world.isInBounds(tX, tY, tZ)) {
+				continue;
+			}
+
+			const target = world.getBlock(tX, tY, tZ);
+
+			if (target?.type == 'air') {
+				if (this.fluid == 'water' && isNearSponge(world, tX, tY, tZ)) {
+					continue;
+				}
+
+				world.setBlockId(tX, tY, tZ, flowingId);
+			} else if (target instanceof FluidBlock && target.fluid != this.fluid) {
+				if (this.fluid == 'water') {
+					world.setBlockId(tX, tY, tZ, target.flowing ? blocks.stone.numId : blocks.obsidian.numId);
+				} else {
+					world.setBlockId(tX, tY, tZ, blocks.stone.numId);
+				}
+			}
+		}
+
+		return true;
+	}
+}
+
+export class SpongeBlock extends Block {
+	tickable = true;
+
+	constructor(id: number) {
+		super(id);
+	}
+
+	update(world: World, x: number, y: number, z: number, scheduled: boolean, _tick: bigint): boolean {
+		if (world.physics != PhysicsLevel.FULL || !scheduled) {
+			return true;
+		}
+
+		for (let x2 = -spongeRadius; x2 <= spongeRadius; x2++) {
+			for (let y2 = -spongeRadius; y2 <= spongeRadius; y2++) {
+				for (let z2 = -spongeRadius; z2 <= spongeRadius; z2++) {
+					const block = world.getBlock(x + x2, y + y2, z + z2);
+
+					if (block instanceof FluidBlock && block.fluid == 'water') {
+						world.setBlockId(x + x2, y + y2, z + z2, blocks.air.numId);
+					}
+				}
+			}
+		}
+
+		return true;
+	}
+
+	onRemove(world: World, pos: BlockPos) {
+		if (world.physics != PhysicsLevel.FULL) {
+			return;
+		}
+
+		// Water held back by sponge needs to be ticked to flow back in
+		const radius = spongeRadius + 1;
+
+		for (let x2 = -radius; x2 <= radius; x2++) {
+			for (let y2 = -radius; y2 <= radius; y2++) {
+				for (let z2 = -radius; z2 <= radius; z2++) {
+					const block = world.getBlock(pos.x + x2, pos.y + y2, pos.z + z2);
+
+					if (block instanceof FluidBlock && block.fluid == 'water') {
+						world.scheduleTick(pos.x + x2, pos.y + y2, pos.z + z2, block.tickDelay);
+					}
+				}
+			}
+		}
+	}
+}
+
+export class GravityBlock extends Block {
+	tickable = true;
+
+	constructor(id: number) {
+		super(id);
+	}
+
+	update(world: World, x: number, y: number, z: number, scheduled: boolean, _tick: bigint): boolean {
+		// Falling is only triggered by neighbor changes
+		if (world.physics == PhysicsLevel.NONE || !scheduled) {
+			return true;
+		}
+
+		let y2 = y;
+
+		while (y2 > 0 && canFallThrough(world.getBlock(x, y2 - 1, z))) {
+			y2--;
+		}
+
+		if (y2 != y) {
+			world.setBlockId(x, y, z, blocks.air.numId);
+			world.setBlockId(x, y2, z, this.numId);
+		}
+
+		return true;
+	}
+}
+
+export class PlantBlock extends Block {
+	readonly growsInDark: boolean;
+	tickable = true;
+
+	constructor(id: number, growsInDark = false) {
+		super(id, true, 'plant', false, true);
+		this.growsInDark = growsInDark;
+	}
+
+	canSurvive(world: World, x: number, y: number, z: number): boolean {
+		const ground = world.getBlock(x, y - 1, z);
+		const isLit = world.isLit(x, y, z);
+
+		if (this.growsInDark) {
+			return !!ground?.solid && !isLit;
+		}
+
+		return (ground?.numId == blocks.grass.numId || ground?.numId == blocks.dirt.numId) && isLit;
+	}
+
+	update(world: World, x: number, y: number, z: number, _scheduled: boolean, _tick: bigint): boolean {
+		if (world.physics != PhysicsLevel.NONE && !this.canSurvive(world, x, y, z)) {
+			world.setBlockId(x, y, z, blocks.air.numId);
+		}
+
+		return true;
+	}
+}
+
+export class SaplingBlock extends PlantBlock {
+	constructor(id: number) {
+		super(id);
+	}
+
+	update(world: World, x: number, y: number, z: number, scheduled: boolean, tick: bigint): boolean {
+		super.update(world, x, y, z, scheduled, tick);
+
+		// Saplings grow only on random ticks
+		if (!scheduled && world.getBlockId(x, y, z) == this.numId && Math.random() < saplingGrowChance && this.hasSpaceToGrow(world, x, y, z)) {
+			world.setBlockId(x, y, z, blocks.air.numId);
+			createClassicTree(world, () => Math.random(), x, y, z, 0, blocks.wood.numId, blocks.leaves.numId);
+		}
+
+		return true;
+	}
+
+	hasSpaceToGrow(world: World, x: number, y: number, z: number): boolean {
+		for (let y2 = 1; y2 <= 6; y2++) {
+			if (!world.isInBounds(x, y + y2, z) || world.getBlockId(x, y + y2, z) != blocks.air.numId) {
+				return false;
+			}
+		}
+
+		return true;
+	}
+}
+
+export class TntBlock extends Block {
+	constructor(id: number) {
+		super(id);
+	}
+
+	onNeighborChanged(world: World, pos: BlockPos, fromPos: BlockPos) {
+		if (world._server.config.tntTriggers.includes('fire') && isFireSource(world.getBlock(fromPos.x, fromPos.y, fromPos.z))) {
+			world.ignite(pos.x, pos.y, pos.z);
+		}
+	}
+
+	onPlace(world: World, pos: BlockPos, _player: Nullable<Player>) {
+		if (!world._server.config.tntTriggers.includes('fire')) {
+			return;
+		}
+
+		// Flow directions cover every neighbour except one above
+		const nearFire = flowDirections.some(([x2, y2, z2]) => isFireSource(world.getBlock(pos.x + x2, pos.y + y2, pos.z + z2)));
+
+		if (nearFire || isFireSource(world.getBlock(pos.x, pos.y + 1, pos.z))) {
+			world.ignite(pos.x, pos.y, pos.z);
+		}
+	}
+
+	onBreak(world: World, pos: BlockPos, player: Nullable<Player>) {
+		if (world._server.config.tntTriggers.includes('break') && player?.checkPermission('tnt.ignite').get(false)) {
+			world.igniteBroken(pos.x, pos.y, pos.z, player.uuid);
+		}
+	}
+}
+
+const saplingGrowChance = 0.5;
+
+function isFireSource(block: Nullable<Block>): boolean {
+	return block?.numId == blocks.fire.numId || (block instanceof FluidBlock && block.fluid == 'lava');
+}
+
+function canFallThrough(block: Nullable<Block>): boolean {
+	return block == null || block.type == 'air' || block.type == 'fluid';
+}
+
+const spongeRadius = 2;
+
+const flowDirections = [
+	[0, -1, 0],
+	[-1, 0, 0],
+	[1, 0, 0],
+	[0, 0, -1],
+	[0, 0, 1],
+];
+
+function isNearSponge(world: World, x: number, y: number, z: number): boolean {
+	for (let x2 = -spongeRadius; x2 <= spongeRadius; x2++) {
+		for (let y2 = -spongeRadius; y2 <= spongeRadius; y2++) {
+			for (let z2 = -spongeRadius; z2 <= spongeRadius; z2++) {
+				if (world.getBlockId(x + x2, y + y2, z + z2) == blocks.sponge.numId) {
+					return true;
+				}
+			}
+		}
+	}
+
+	return false;
+}
+
+export type FluidTypes = 'water' | 'lava';
+
 export type BlockTypes = 'full' | 'fluid' | 'plant' | 'slab' | 'air';
 
 export const blocks = {
@@ -73,20 +356,20 @@ export const blocks = {
 	dirt: new Block(3),
 	cobblestone: new Block(4),
 	planks: new Block(5),
-	sapling: new Block(6, true, 'plant', false, this),
+	sapling: new SaplingBlock(6),
 	bedrock: new Block(7, false, 'full', true),
-	flowingWater: new Block(8, false, 'fluid', false),
-	water: new Block(9, false, 'fluid', false),
-	flowingLava: new Block(10, false, 'fluid', false),
-	lava: new Block(11, false, 'fluid', false),
-	sand: new Block(12),
-	gravel: new Block(13),
+	flowingWater: new FluidBlock(8, 'water', true, 5),
+	water: new FluidBlock(9, 'water', false, 5),
+	flowingLava: new FluidBlock(10, 'lava', true, 30),
+	lava: new FluidBlock(11, 'lava', false, 30),
+	sand: new GravityBlock(12),
+	gravel: new GravityBlock(13),
 	goldOre: new Block(14),
 	ironOre: new Block(15),
 	coalOre: new Block(16),
 	wood: new Block(17),
 	leaves: new Block(18, true, 'full', false, true),
-	sponge: new Block(19),
+	sponge: new SpongeBlock(19),
 	glass: new Block(20, true, 'full', false, true),
 	red: new Block(21),
 	orange: new Block(22),
@@ -104,19 +387,37 @@ export const blocks = {
 	black: new Block(34),
 	gray: new Block(35),
 	white: new Block(36),
-	dandelion: new Block(37, true, 'plant', false, true),
-	rose: new Block(38, true, 'plant', false, true),
-	brownMushroom: new Block(39, true, 'plant', false, true),
-	redMushroom: new Block(40, true, 'plant', false, true),
+	dandelion: new PlantBlock(37),
+	rose: new PlantBlock(38),
+	brownMushroom: new PlantBlock(39, true),
+	redMushroom: new PlantBlock(40, true),
 	gold: new Block(41),
 	iron: new Block(42),
 	doubleSlab: new Block(43),
 	slab: new Block(44),
 	bricks: new Block(45),
-	tnt: new Block(46),
+	tnt: new TntBlock(46),
 	bookshelf: new Block(47),
 	moss: new Block(48),
 	obsidian: new Block(49),
+
+	// Blocks added by CPE CustomBlocks extension
+	cobblestoneSlab: new Block(50, true, 'slab'),
+	rope: new Block(51, true, 'plant', false, true),
+	sandstone: new Block(52),
+	snow: new Block(53, true, 'plant', false, true),
+	fire: new Block(54, true, 'plant', false, true),
+	lightPink: new Block(55),
+	forestGreen: new Block(56),
+	brown: new Block(57),
+	deepBlue: new Block(58),
+	turquoise: new Block(59),
+	ice: new Block(60, true, 'full', false, true),
+	ceramicTile: new Block(61),
+	magma: new Block(62),
+	pillar: new Block(63),
+	crate: new Block(64),
+	stoneBrick: new Block(65),
 };
 
 
@@ -130,10 +431,124 @@ export const blockIds = <{[Property in keyof typeof blocks]: number}>(() => {
 	return obj;
 })();
 
-export const lastBlockId = blockIds.obsidian;
+export const lastBlockId = blockIds.stoneBrick;
+
+/**
+ * Last block supported by clients without CPE CustomBlocks extension
+ */
+export const lastClassicBlockId = blockIds.obsidian;
+
+/**
+ * Blocks shown instead of CustomBlocks ones to clients, that don't support them
+ */
+export const customBlockFallbacks: Record<number, number> = {
+	[blockIds.cobblestoneSlab]: blockIds.slab,
+	[blockIds.rope]: blockIds.brownMushroom,
+	[blockIds.sandstone]: blockIds.sand,
+	[blockIds.snow]: blockIds.air,
+	[blockIds.fire]: blockIds.lava,
+	[blockIds.lightPink]: blockIds.pink,
+	[blockIds.forestGreen]: blockIds.green,
+	[blockIds.brown]: blockIds.dirt,
+	[blockIds.deepBlue]: blockIds.blue,
+	[blockIds.turquoise]: blockIds.cyan,
+	[blockIds.ice]: blockIds.glass,
+	[blockIds.ceramicTile]: blockIds.iron,
+	[blockIds.magma]: blockIds.obsidian,
+	[blockIds.pillar]: blockIds.white,
+	[blockIds.crate]: blockIds.planks,
+	[blockIds.stoneBrick]: blockIds.stone,
+};
+
+/**
+ * Highest block id, that can be stored in worlds
+ */
+export const maxBlockId = 255;
 
 export const blocksIdsToName: Record<number, string> = {};
 
 for (const x in blockIds) {
 	blocksIdsToName[(<Holder<number>>blockIds)[x]] = x;
 }
+
+/**
+ * Stores all blocks known by server. Every server has its own registry, in which plugins can register their own Block subclasses
+ */
+export class BlockRegistry {
+	protected readonly byId: Map<number, Block> = new Map();
+	protected readonly byName: Map<string, Block> = new Map();
+	protected readonly names: Map<number, string> = new Map();
+
+	constructor() {
+		for (const [name, block] of Object.entries(blocks)) {
+			this.register(name, block);
+		}
+	}
+
+	/**
+	 * Registers block
+	 *
+	 * @param name Block's name, used in commands
+	 * @param block Block instance
+	 * @returns False if id or name is already used
+	 */
+	register(name: string, block: Block): boolean {
+		if (block.numId < 0 || block.numId > maxBlockId || this.byId.has(block.numId) || this.byName.has(name.toLowerCase())) {
+			return false;
+		}
+
+		this.byId.set(block.numId, block);
+		this.byName.set(name.toLowerCase(), block);
+		this.names.set(block.numId, name);
+		return true;
+	}
+
+	/**
+	 * Removes block registered by plugin, for example when it's reloaded. Built-in blocks can't be removed
+	 *
+	 * @param id Block id
+	 * @returns False if block isn't registered or it's built-in one
+	 */
+	unregister(id: number): boolean {
+		const block = this.byId.get(id);
+		const name = this.names.get(id);
+
+		if (!block || name == undefined || (<Holder<Block>>blocks)[blocksIdsToName[id]] == block) {
+			return false;
+		}
+
+		this.byId.delete(id);
+		this.byName.delete(name.toLowerCase());
+		this.names.delete(id);
+		return true;
+	}
+
+	/**
+	 * Returns block with provided id
+	 */
+	get(id: number): Nullable<Block> {
+		return this.byId.get(id) ?? null;
+	}
+
+	/**
+	 * Returns block with provided name (case insensitive)
+	 */
+	getByName(name: string): Nullable<Block> {
+		return this.byName.get(name.toLowerCase()) ?? null;
+	}
+
+	/**
+	 * Returns name of block
+	 */
+	getName(id: number): Nullable<string> {
+		return this.names.get(id) ?? null;
+	}
+
+	has(id: number): boolean {
+		return this.byId.has(id);
+	}
+
+	values(): IterableIterator<Block> {
+		return this.byId.values();
+	}
+}
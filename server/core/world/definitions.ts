@@ -0,0 +1,231 @@
+import type { Nullable, XYZ } from '../types.ts';
+
+import { Byte, Int, TagObject } from '../../libs/nbt/index.ts';
+
+import { Block, BlockTypes, lastBlockId, maxBlockId } from './blocks.ts';
+
+export enum BlockSolidity {
+	WALK_THROUGH,
+	SWIM_THROUGH,
+	SOLID,
+}
+
+export enum BlockDraw {
+	OPAQUE,
+	TRANSPARENT,
+	TRANSPARENT_NO_CULLING,
+	TRANSLUCENT,
+	GAS,
+}
+
+export interface BlockTextures {
+	top: number;
+	bottom: number;
+	left: number;
+	right: number;
+	front: number;
+	back: number;
+}
+
+/**
+ * Custom block, sent to clients with CPE BlockDefinitions and BlockDefinitionsExt extensions
+ */
+export interface BlockDefinition {
+	id: number;
+	name: string;
+	solidity: BlockSolidity;
+	/**
+	 * Movement speed, 128 is normal speed
+	 */
+	speed: number;
+	textures: BlockTextures;
+	transmitsLight: boolean;
+	walkSound: number;
+	fullBright: boolean;
+	/**
+	 * Sprite blocks are rendered like plants, ignoring bounds
+	 */
+	sprite: boolean;
+	/**
+	 * Bounds of block, from 0 to 16
+	 */
+	min: XYZ;
+	max: XYZ;
+	draw: BlockDraw;
+	/**
+	 * Fog density and it's color
+	 */
+	fog: [number, number, number, number];
+	/**
+	 * Id of block shown to clients without support of custom blocks
+	 */
+	fallback: number;
+}
+
+export const defaultBlockDefinition: Readonly<Omit<BlockDefinition, 'id' | 'name'>> = {
+	solidity: BlockSolidity.SOLID,
+	speed: 128,
+	textures: { top: 1, bottom: 1, left: 1, right: 1, front: 1, back: 1 },
+	transmitsLight: false,
+	walkSound: 1,
+	fullBright: false,
+	sprite: false,
+	min: [0, 0, 0],
+	max: [16, 16, 16],
+	draw: BlockDraw.OPAQUE,
+	fog: [0, 0, 0, 0],
+	fallback: 1,
+};
+
+/**
+ * Stores custom block definitions of a world
+ */
+export class BlockDefinitionRegistry {
+	readonly definitions: Map<number, BlockDefinition> = new Map();
+	protected readonly blocks: Map<number, Block> = new Map();
+
+	constructor(definitions: BlockDefinition[] = []) {
+		definitions.forEach((d) => this.define(d));
+	}
+
+	/**
+	 * Adds or replaces custom block
+	 *
+	 * @param definition Block definition
+	 * @returns False if id can't be used by custom block
+	 */
+	define(definition: BlockDefinition): boolean {
+		if (!isCustomBlockId(definition.id)) {
+			return false;
+		}
+
+		this.definitions.set(definition.id, definition);
+		this.blocks.set(definition.id, createBlock(definition));
+		return true;
+	}
+
+	/**
+	 * Removes custom block
+	 *
+	 * @returns True if block was defined
+	 */
+	remove(id: number): boolean {
+		this.blocks.delete(id);
+		return this.definitions.delete(id);
+	}
+
+	has(id: number): boolean {
+		return this.definitions.has(id);
+	}
+
+	get(id: number): Nullable<BlockDefinition> {
+		return this.definitions.get(id) ?? null;
+	}
+
+	/**
+	 * Returns Block instance used by server for custom block
+	 */
+	getBlock(id: number): Nullable<Block> {
+		return this.blocks.get(id) ?? null;
+	}
+
+	/**
+	 * Serializes definitions in ClassicWorld's `Metadata.CPE.BlockDefinitions` format
+	 */
+	serialize(): TagObject {
+		const out: TagObject = { ExtensionVersion: new Int(1) };
+
+		for (const def of this.definitions.values()) {
+			const t = def.textures;
+
+			out[`Block${def.id}`] = {
+				ID: new Byte(def.id),
+				Name: def.name,
+				CollideType: new Byte(def.solidity),
+				Speed: new Byte(def.speed),
+				Textures: new Uint8Array([t.top, t.bottom, t.left, t.right, t.front, t.back]),
+				TransmitsLight: new Byte(def.transmitsLight ? 1 : 0),
+				WalkSound: new Byte(def.walkSound),
+				FullBright: new Byte(def.fullBright ? 1 : 0),
+				Shape: new Byte(def.sprite ? 0 : def.max[1]),
+				BlockDraw: new Byte(def.draw),
+				Fog: new Uint8Array(def.fog),
+				Coords: new Uint8Array([...def.min, ...def.max]),
+				Fallback: new Byte(def.fallback),
+			};
+		}
+
+		return out;
+	}
+
+	static deserialize(data: TagObject | undefined): BlockDefinition[] {
+		const out: BlockDefinition[] = [];
+
+		for (const value of Object.values(data ?? {})) {
+			if (!(value instanceof Object) || (<TagObject>value).ID == undefined) {
+				continue;
+			}
+
+			const block = <TagObject>value;
+			const byte = (key: string, defaultValue: number) => (block[key] != undefined ? Number(block[key]?.valueOf()) & 0xff : defaultValue);
+			const textures = <Uint8Array | undefined>block.Textures;
+			const coords = <Uint8Array | undefined>block.Coords;
+			const fog = <Uint8Array | undefined>block.Fog;
+			const shape = byte('Shape', 16);
+
+			out.push({
+				...defaultBlockDefinition,
+				id: byte('ID', 0),
+				name: block.Name?.toString() ?? 'Unknown',
+				solidity: byte('CollideType', defaultBlockDefinition.solidity),
+				speed: byte('Speed', defaultBlockDefinition.speed),
+				textures: textures
+					? { top: textures[0], bottom: textures[1], left: textures[2], right: textures[3], front: textures[4], back: textures[5] }
+					: { ...defaultBlockDefinition.textures },
+				transmitsLight: byte('TransmitsLight', 0) != 0,
+				walkSound: byte('WalkSound', defaultBlockDefinition.walkSound),
+				fullBright: byte('FullBright', 0) != 0,
+				sprite: shape == 0,
+				min: coords ? [coords[0], coords[1], coords[2]] : [0, 0, 0],
+				max: coords ? [coords[3], coords[4], coords[5]] : [16, shape || 16, 16],
+				draw: byte('BlockDraw', defaultBlockDefinition.draw),
+				fog: fog ? [fog[0], fog[1], fog[2], fog[3]] : [0, 0, 0, 0],
+				fallback: byte('Fallback', defaultBlockDefinition.fallback),
+			});
+		}
+
+		return out;
+	}
+}
+
+/**
+ * Checks if id can be used by custom block, meaning it isn't used by built-in block.
+ * Ids of blocks registered by plugins are checked in `World.defineBlock`
+ */
+export function isCustomBlockId(id: number): boolean {
+	return id > lastBlockId && id <= maxBlockId;
+}
+
+/**
+ * Checks if block definition can be sent with BlockDefinitions packet, without BlockDefinitionsExt
+ */
+export function hasSimpleShape(def: BlockDefinition): boolean {
+	return def.sprite || (def.min.every((x) => x == 0) && def.max[0] == 16 && def.max[2] == 16);
+}
+
+function createBlock(def: BlockDefinition): Block {
+	let type: BlockTypes;
+
+	switch (def.solidity) {
+		case BlockSolidity.SOLID:
+			type = def.sprite || def.max[1] >= 16 ? 'full' : 'slab';
+			break;
+		case BlockSolidity.SWIM_THROUGH:
+			type = 'fluid';
+			break;
+		default:
+			type = 'plant';
+	}
+
+	return new Block(def.id, true, type, false, def.transmitsLight || def.sprite);
+}
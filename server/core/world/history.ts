@@ -0,0 +1,208 @@
+import type { Nullable } from '../types.ts';
+
+/**
+ * Size of single entry in bytes:
+ * X, Y, Z, old block, new block, player index (u16), time in seconds (u32)
+ */
+const entrySize = 16;
+
+export interface BlockChange {
+	x: number;
+	y: number;
+	z: number;
+	oldBlock: number;
+	newBlock: number;
+	player: string;
+	time: number;
+}
+
+/**
+ * Stores changes made by players to world in compact, binary form
+ */
+export class BlockHistory {
+	readonly limit: number;
+	dirty = false;
+
+	protected players: string[] = [];
+	protected playerIndexes: Map<string, number> = new Map();
+	protected buffer: Uint8Array;
+	protected view: DataView;
+	protected length = 0;
+
+	/**
+	 * @param limit Maximal amount of stored changes, 0 or less disables limit
+	 */
+	constructor(limit = 0) {
+		this.limit = limit;
+		this.buffer = new Uint8Array(entrySize * 1024);
+		this.view = new DataView(this.buffer.buffer);
+	}
+
+	/**
+	 * Returns amount of stored changes
+	 */
+	get size(): number {
+		return this.length;
+	}
+
+	/**
+	 * Records block change
+	 *
+	 * @param change Change data, time is in milliseconds
+	 */
+	add(change: BlockChange) {
+		if (this.limit > 0 && this.length >= this.limit) {
+			// Removes oldest 10% of entries at once, so it doesn't need to move data every time
+			const removed = Math.max(1, Math.floor(this.limit / 10));
+			this.buffer.copyWithin(0, removed * entrySize, this.length * entrySize);
+			this.length -= removed;
+		}
+
+		if ((this.length + 1) * entrySize > this.buffer.length) {
+			const buffer = new Uint8Array(this.buffer.length * 2);
+			buffer.set(this.buffer);
+			this.buffer = buffer;
+			this.view = new DataView(buffer.buffer);
+		}
+
+		this.writeEntry(this.length, change);
+		this.length++;
+		this.dirty = true;
+	}
+
+	/**
+	 * Returns all changes made at position, from oldest to newest
+	 */
+	getAt(x: number, y: number, z: number): BlockChange[] {
+		return this.filter((c) => c.x == x && c.y == y && c.z == z);
+	}
+
+	/**
+	 * Returns all changes made by player since provided time, from oldest to newest
+	 *
+	 * @param player Player's UUID
+	 * @param since Time in milliseconds
+	 */
+	getBy(player: string, since = 0): BlockChange[] {
+		return this.filter((c) => c.player == player && c.time >= since);
+	}
+
+	/**
+	 * Removes all changes made by player since provided time
+	 *
+	 * @param player Player's UUID
+	 * @param since Time in milliseconds
+	 * @returns Removed changes, from oldest to newest
+	 */
+	removeBy(player: string, since = 0): BlockChange[] {
+		const removed: BlockChange[] = [];
+		let newLength = 0;
+
+		for (let i = 0; i < this.length; i++) {
+			const change = this.readEntry(i);
+
+			if (change.player == player && change.time >= since) {
+				removed.push(change);
+			} else {
+				this.buffer.copyWithin(newLength * entrySize, i * entrySize, (i + 1) * entrySize);
+				newLength++;
+			}
+		}
+
+		this.length = newLength;
+		this.dirty = this.dirty || removed.length > 0;
+		return removed;
+	}
+
+	filter(predicate: (change: BlockChange) => boolean): BlockChange[] {
+		const out: BlockChange[] = [];
+
+		for (let i = 0; i < this.length; i++) {
+			const change = this.readEntry(i);
+			if (predicate(change)) {
+				out.push(change);
+			}
+		}
+
+		return out;
+	}
+
+	serialize(): Uint8Array {
+		const players = new TextEncoder().encode(this.players.join('\n'));
+		const out = new Uint8Array(8 + players.length + this.length * entrySize);
+		const view = new DataView(out.buffer);
+
+		view.setUint32(0, players.length);
+		out.set(players, 4);
+		view.setUint32(4 + players.length, this.length);
+		out.set(this.buffer.subarray(0, this.length * entrySize), 8 + players.length);
+
+		return out;
+	}
+
+	static deserialize(data: Nullable<Uint8Array>, limit = 0): BlockHistory {
+		const history = new BlockHistory(limit);
+
+		if (data == null || data.length < 8) {
+			return history;
+		}
+
+		try {
+			const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+			const playersLength = view.getUint32(0);
+			const players = new TextDecoder().decode(data.subarray(4, 4 + playersLength));
+			const length = view.getUint32(4 + playersLength);
+
+			if (players.length > 0) {
+				players.split('\n').forEach((p) => history.getPlayerIndex(p));
+			}
+
+			history.buffer = new Uint8Array(Math.max(length * 2, 1024) * entrySize);
+			history.buffer.set(data.subarray(8 + playersLength, 8 + playersLength + length * entrySize));
+			history.view = new DataView(history.buffer.buffer);
+			history.length = length;
+		} catch (_e) {
+			return new BlockHistory(limit);
+		}
+
+		return history;
+	}
+
+	protected getPlayerIndex(player: string): number {
+		let index = this.playerIndexes.get(player);
+
+		if (index == undefined) {
+			index = this.players.length;
+			this.players.push(player);
+			this.playerIndexes.set(player, index);
+		}
+
+		return index;
+	}
+
+	protected writeEntry(index: number, change: BlockChange) {
+		const offset = index * entrySize;
+
+		this.view.setUint16(offset, change.x);
+		this.view.setUint16(offset + 2, change.y);
+		this.view.setUint16(offset + 4, change.z);
+		this.view.setUint16(offset + 6, change.oldBlock);
+		this.view.setUint16(offset + 8, change.newBlock);
+		this.view.setUint16(offset + 10, this.getPlayerIndex(change.player));
+		this.view.setUint32(offset + 12, Math.floor(change.time / 1000));
+	}
+
+	protected readEntry(index: number): BlockChange {
+		const offset = index * entrySize;
+
+		return {
+			x: this.view.getUint16(offset),
+			y: this.view.getUint16(offset + 2),
+			z: this.view.getUint16(offset + 4),
+			oldBlock: this.view.getUint16(offset + 6),
+			newBlock: this.view.getUint16(offset + 8),
+			player: this.players[this.view.getUint16(offset + 10)],
+			time: this.view.getUint32(offset + 12) * 1000,
+		};
+	}
+}
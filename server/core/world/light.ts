@@ -0,0 +1,150 @@
+import type { Nullable } from '../types.ts';
+import type { Block } from './blocks.ts';
+import type { IWorldView } from './world.ts';
+
+type ColumnCheck = (block: Nullable<Block>) => boolean;
+
+const blocksLight: ColumnCheck = (block) => !!block && !block.passLight;
+const isSolid: ColumnCheck = (block) => !!block?.solid;
+const isNotAir: ColumnCheck = (block) => !!block && block.numId != 0;
+
+/**
+ * Caches highest blocks of every column of a world, used for sky light and height lookups.
+ * Values are updated incrementally with `update`, after block was changed
+ */
+export class LightMap {
+	protected readonly world: IWorldView;
+	protected readonly sizeX: number;
+	protected readonly sizeY: number;
+	/**
+	 * Highest block, that doesn't pass light, -1 if there is none
+	 */
+	protected readonly lightHeight: Int16Array;
+	/**
+	 * Highest solid block, -1 if there is none
+	 */
+	protected readonly solidHeight: Int16Array;
+	/**
+	 * Highest non-air block, -1 if there is none
+	 */
+	protected readonly blockHeight: Int16Array;
+
+	constructor(world: IWorldView) {
+		const [sizeX, sizeY, sizeZ] = world.getSize();
+		this.world = world;
+		this.sizeX = sizeX;
+		this.sizeY = sizeY;
+		this.lightHeight = new Int16Array(sizeX * sizeZ);
+		this.solidHeight = new Int16Array(sizeX * sizeZ);
+		this.blockHeight = new Int16Array(sizeX * sizeZ);
+
+		this.recalculate();
+	}
+
+	/**
+	 * Recalculates whole map, should be used after changing block data directly
+	 */
+	recalculate() {
+		const sizeZ = this.lightHeight.length / this.sizeX;
+
+		for (let x = 0; x < this.sizeX; x++) {
+			for (let z = 0; z < sizeZ; z++) {
+				this.recalculateColumn(x, z);
+			}
+		}
+	}
+
+	protected recalculateColumn(x: number, z: number) {
+		const index = x + this.sizeX * z;
+		this.lightHeight[index] = -1;
+		this.solidHeight[index] = -1;
+		this.blockHeight[index] = -1;
+
+		// Single pass from top, stopping once all values are known
+		for (let y = this.sizeY - 1; y >= 0; y--) {
+			if (this.lightHeight[index] != -1 && this.solidHeight[index] != -1 && this.blockHeight[index] != -1) {
+				break;
+			}
+
+			const block = this.world.getBlock(x, y, z);
+
+			if (this.lightHeight[index] == -1 && blocksLight(block)) {
+				this.lightHeight[index] = y;
+			}
+
+			if (this.solidHeight[index] == -1 && isSolid(block)) {
+				this.solidHeight[index] = y;
+			}
+
+			if (this.blockHeight[index] == -1 && isNotAir(block)) {
+				this.blockHeight[index] = y;
+			}
+		}
+	}
+
+	/**
+	 * Updates column after block at position was changed
+	 */
+	update(x: number, y: number, z: number) {
+		if (!this.world.isInBounds(x, y, z)) {
+			return;
+		}
+
+		const index = Math.floor(x) + this.sizeX * Math.floor(z);
+		const block = this.world.getBlock(x, y, z);
+		y = Math.floor(y);
+
+		this.updateColumn(this.lightHeight, index, x, y, z, block, blocksLight);
+		this.updateColumn(this.solidHeight, index, x, y, z, block, isSolid);
+		this.updateColumn(this.blockHeight, index, x, y, z, block, isNotAir);
+	}
+
+	/**
+	 * Checks if position is reached by sky light
+	 */
+	isLit(x: number, y: number, z: number): boolean {
+		return !this.world.isInBounds(x, 0, z) || Math.floor(y) > this.lightHeight[this.getIndex(x, z)];
+	}
+
+	/**
+	 * Returns height of highest block, that doesn't pass light, -1 if there is none
+	 */
+	getLightHeight(x: number, z: number): number {
+		return this.world.isInBounds(x, 0, z) ? this.lightHeight[this.getIndex(x, z)] : -1;
+	}
+
+	/**
+	 * Returns height of highest solid (or any non-air) block, 0 if there is none
+	 */
+	getHighestBlock(x: number, z: number, nonSolid = false): number {
+		if (!this.world.isInBounds(x, 0, z)) {
+			return 0;
+		}
+
+		return Math.max((nonSolid ? this.blockHeight : this.solidHeight)[this.getIndex(x, z)], 0);
+	}
+
+	protected getIndex(x: number, z: number): number {
+		return Math.floor(x) + this.sizeX * Math.floor(z);
+	}
+
+	protected updateColumn(map: Int16Array, index: number, x: number, y: number, z: number, block: Nullable<Block>, check: ColumnCheck) {
+		if (check(block)) {
+			if (y > map[index]) {
+				map[index] = y;
+			}
+		} else if (y == map[index]) {
+			map[index] = this.findHighest(x, y - 1, z, check);
+		}
+	}
+
+	protected findHighest(x: number, fromY: number, z: number, check: ColumnCheck): number {
+		for (let y = fromY; y >= 0; y--) {
+			if (check(this.world.getBlock(x, y, z))) {
+				return y;
+			}
+		}
+
+		return -1;
+	}
+}
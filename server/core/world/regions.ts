@@ -0,0 +1,119 @@
+import type { Player } from '../player.ts';
+import { BlockPos, isOwnKey, Nullable } from '../types.ts';
+
+import { Byte, Int, Tag, TagObject } from '../../libs/nbt/index.ts';
+
+/**
+ * Region flags. `build`, `break` and `enter` are enforced by server, while `pvp` is only stored
+ * for plugins adding combat, same as `WorldSettings.pvp`
+ */
+export type RegionFlag = 'build' | 'break' | 'enter' | 'pvp';
+
+/**
+ * Values of flags used for players, that aren't owners or members of region
+ */
+export const defaultRegionFlags: Readonly<Record<RegionFlag, boolean>> = {
+	build: false,
+	break: false,
+	enter: true,
+	pvp: false,
+};
+
+export class Region {
+	readonly name: string;
+	readonly min: BlockPos;
+	readonly max: BlockPos;
+
+	readonly owners: Set<string>;
+	readonly members: Set<string>;
+	readonly flags: Record<RegionFlag, boolean>;
+
+	constructor(name: string, pos1: BlockPos, pos2: BlockPos, owners: string[] = [], members: string[] = [], flags: Partial<Record<RegionFlag, boolean>> = {}) {
+		this.name = name;
+		this.min = { x: Math.min(pos1.x, pos2.x), y: Math.min(pos1.y, pos2.y), z: Math.min(pos1.z, pos2.z) };
+		this.max = { x: Math.max(pos1.x, pos2.x), y: Math.max(pos1.y, pos2.y), z: Math.max(pos1.z, pos2.z) };
+		this.owners = new Set(owners);
+		this.members = new Set(members);
+		this.flags = { ...defaultRegionFlags, ...flags };
+	}
+
+	/**
+	 * Checks if block position is inside of region
+	 */
+	contains(x: number, y: number, z: number): boolean {
+		x = Math.floor(x);
+		y = Math.floor(y);
+		z = Math.floor(z);
+		return x >= this.min.x && y >= this.min.y && z >= this.min.z && x <= this.max.x && y <= this.max.y && z <= this.max.z;
+	}
+
+	/**
+	 * Checks if player is owner or member of region
+	 */
+	isMember(uuid: string): boolean {
+		return this.owners.has(uuid) || this.members.has(uuid);
+	}
+
+	/**
+	 * Checks if player can do action in region.
+	 * Owners, members and players with `region.bypass` permission aren't affected by flags
+	 *
+	 * @param player Player instance
+	 * @param flag Checked flag
+	 */
+	allows(player: Player, flag: RegionFlag): boolean {
+		return this.flags[flag] || this.isMember(player.uuid) || player.checkPermission('region.bypass').get(false);
+	}
+
+	serialize(): TagObject {
+		const flags: TagObject = {};
+
+		for (const [key, value] of Object.entries(this.flags)) {
+			flags[key] = new Byte(value ? 1 : 0);
+		}
+
+		return {
+			Min: serializePos(this.min),
+			Max: serializePos(this.max),
+			Owners: [...this.owners],
+			Members: [...this.members],
+			Flags: flags,
+		};
+	}
+
+	static deserialize(name: string, data: TagObject): Nullable<Region> {
+		try {
+			const flags: Partial<Record<RegionFlag, boolean>> = {};
+			const flagsData = <TagObject>data.Flags ?? {};
+
+			for (const key of <RegionFlag[]>Object.keys(defaultRegionFlags)) {
+				if (flagsData[key] != undefined) {
+					flags[key] = flagsData[key].valueOf() != 0;
+				}
+			}
+
+			return new Region(
+				name,
+				deserializePos(<TagObject>data.Min),
+				deserializePos(<TagObject>data.Max),
+				<string[]>data.Owners ?? [],
+				<string[]>data.Members ?? [],
+				flags
+			);
+		} catch (_e) {
+			return null;
+		}
+	}
+}
+
+export function isRegionFlag(flag: string): flag is RegionFlag {
+	return isOwnKey(defaultRegionFlags, flag);
+}
+
+function serializePos(pos: BlockPos): TagObject {
+	return { X: new Int(pos.x), Y: new Int(pos.y), Z: new Int(pos.z) };
+}
+
+function deserializePos(data: TagObject): BlockPos {
+	return { x: Number((<Tag>data.X).valueOf()), y: Number((<Tag>data.Y).valueOf()), z: Number((<Tag>data.Z).valueOf()) };
+}
@@ -1,10 +1,14 @@
 import type { Player } from '../player.ts';
 import { Server } from '../server.ts';
-import type { Nullable, Position, Services, XYZ } from '../types.ts';
+import type { Holder, Nullable, Position, Services, XYZ } from '../types.ts';
 
-import { Byte, decode as decodeNBT, encode as encodeNBT, Short, TagObject } from '../../libs/nbt/index.ts';
+import { Byte, decode as decodeNBT, encode as encodeNBT, Int, Short, Tag, TagObject } from '../../libs/nbt/index.ts';
 
-import { Block, lastBlockId } from './blocks.ts';
+import { Block, blockIds, customBlockFallbacks, lastBlockId, lastClassicBlockId, maxBlockId } from './blocks.ts';
+import { BlockDefinition, BlockDefinitionRegistry } from './definitions.ts';
+import { Region, RegionFlag } from './regions.ts';
+import { BlockHistory } from './history.ts';
+import { LightMap } from './light.ts';
 
 import * as uuid from '../uuid.ts';
 
@@ -43,7 +47,7 @@ export class WorldView implements IWorldView {
 
 	setBlockId(x: number, y: number, z: number, block: number): boolean {
 		if (this.isInBounds(x, y, z)) {
-			block = block > lastBlockId || block < 0 ? 1 : block;
+			block = this.isValidBlockId(block) ? block : 1;
 			this._rawSetBlockId(x, y, z, block);
 			return true;
 		} else {
@@ -51,6 +55,13 @@ export class WorldView implements IWorldView {
 		}
 	}
 
+	/**
+	 * Checks if block id can be stored in this world
+	 */
+	isValidBlockId(block: number): boolean {
+		return block >= 0 && block <= lastBlockId;
+	}
+
 	_rawSetBlockId(x: number, y: number, z: number, block: number) {
 		this.blockData[this.getIndex(x, y, z)] = block;
 	}
@@ -132,10 +143,31 @@ export class World extends WorldView {
 
 	_metadata: TagObject;
 	readonly _server: Server;
-	protected blocksToUpdate: [number, number, number, Block][] = [];
-	protected lazyBlocksToUpdate: [number, number, number, Block][] = [];
+	/**
+	 * Block index mapped to tick, at which it should be updated
+	 */
+	protected scheduledTicks: Map<number, bigint> = new Map();
+	/**
+	 * Tick mapped to indexes of blocks updated in it
+	 */
+	protected tickQueue: Map<bigint, number[]> = new Map();
+	/**
+	 * Block indexes, that should be already updated, but exceeded tick budget
+	 */
+	protected overdueTicks: number[] = [];
+	protected currentTick = 0n;
+	protected pendingBlockUpdates: Map<number, XYZ> = new Map();
+	/**
+	 * Index of ignited TNT mapped to tick, at which it explodes
+	 */
+	protected primedTnt: Map<number, PrimedTnt> = new Map();
 
 	physics: PhysicsLevel;
+	readonly settings: WorldSettings;
+	readonly regions: Map<string, Region> = new Map();
+	readonly blockDefinitions: BlockDefinitionRegistry;
+	readonly history: BlockHistory;
+	readonly light: LightMap;
 
 	constructor(fileName: string, data: WorldData, server: Server) {
 		super(data.blockData ?? null, data.size[0], data.size[1], data.size[2], data.spawnPoint);
@@ -153,18 +185,258 @@ export class World extends WorldView {
 
 		this._metadata = data._metadata ?? {};
 		this.physics = data.physics;
+		this.settings = { ...defaultWorldSettings, ...(data.settings ?? {}) };
+
+		data.regions?.forEach((r) => this.regions.set(r.name, r));
+		this.blockDefinitions = new BlockDefinitionRegistry(data.blockDefinitions);
+		this.replaceUnknownBlocks();
+		this.history = BlockHistory.deserialize(server.files.getBlockHistory(fileName), server.config.blockHistoryLimit);
+		this.light = new LightMap(this);
+	}
+
+	isValidBlockId(block: number): boolean {
+		return this._server.blockRegistry.has(block) || this.blockDefinitions.has(block);
+	}
+
+	/**
+	 * Replaces blocks unknown to server (for example ones of removed plugins) with their stored fallback
+	 */
+	protected replaceUnknownBlocks() {
+		const fallback = <Uint8Array | undefined>(<TagObject>(<TagObject>this._metadata.CPE)?.CustomBlocks)?.Fallback;
+
+		for (let i = 0; i < this.blockData.length; i++) {
+			const id = this.blockData[i];
+
+			if (!this.isValidBlockId(id)) {
+				const fallbackId = fallback?.[id];
+				this.blockData[i] = fallbackId != undefined && this.isValidBlockId(fallbackId) ? fallbackId : 1;
+			}
+		}
+	}
+
+	getBlock(x: number, y: number, z: number): Nullable<Block> {
+		return this.getBlockById(this.getBlockId(x, y, z));
+	}
+
+	/**
+	 * Returns height of highest block in column, using cached height map
+	 */
+	getHighestBlock(x: number, z: number, nonSolid = false): number {
+		return this.light.getHighestBlock(x, z, nonSolid);
+	}
+
+	/**
+	 * Checks if position is reached by sky light, meaning there are no light blocking blocks above it
+	 */
+	isLit(x: number, y: number, z: number): boolean {
+		return this.light.isLit(x, y, z);
+	}
+
+	/**
+	 * Converts block id to Block instance, including custom blocks of this world
+	 */
+	getBlockById(id: number): Nullable<Block> {
+		return this._server.blockRegistry.get(id) ?? this.blockDefinitions.getBlock(id);
 	}
 
+	/**
+	 * Returns block id, that can be displayed by clients without support for CPE custom blocks
+	 */
+	getFallbackBlockId(id: number): number {
+		if (id <= lastClassicBlockId) {
+			return id;
+		} else if (id <= lastBlockId) {
+			return customBlockFallbacks[id] ?? 1;
+		}
+
+		const fallback = this.blockDefinitions.get(id)?.fallback ?? this._server.blockRegistry.get(id)?.fallback ?? 1;
+		return fallback < id ? this.getFallbackBlockId(fallback) : 1;
+	}
+
+	/**
+	 * Adds or replaces custom block and resends world to players
+	 *
+	 * @param definition Block definition
+	 * @returns False if id can't be used by custom block
+	 */
+	defineBlock(definition: BlockDefinition): boolean {
+		if (this._server.blockRegistry.has(definition.id) || !this.blockDefinitions.define(definition)) {
+			return false;
+		}
+
+		// Definition can change whether existing blocks pass light
+		this.light.recalculate();
+		this.dirty = true;
+		this.players.forEach((p) => p._connectionHandler.sendWorld(this));
+		return true;
+	}
+
+	/**
+	 * Removes custom block, replacing existing ones with its fallback
+	 *
+	 * @param id Block id
+	 * @returns True if block was defined
+	 */
+	removeBlockDefinition(id: number): boolean {
+		const fallback = this.getFallbackBlockId(id);
+
+		if (!this.blockDefinitions.remove(id)) {
+			return false;
+		}
+
+		for (let i = 0; i < this.blockData.length; i++) {
+			if (this.blockData[i] == id) {
+				this.blockData[i] = fallback;
+			}
+		}
+
+		this.light.recalculate();
+		this.dirty = true;
+		this.players.forEach((p) => p._connectionHandler.sendWorld(this));
+		return true;
+	}
+
+	/**
+	 * Sets block and notifies neighbours about change
+	 */
 	setBlockId(x: number, y: number, z: number, block: number): boolean {
+		const oldBlock = this.getBlock(x, y, z);
 		const out = super.setBlockId(x, y, z, block);
 		this.dirty = true;
 		if (out) {
+			this.light.update(x, y, z);
 			this.players.forEach((p) => p._connectionHandler.setBlock(x, y, z, block));
+			this.updateNeighbors(x, y, z);
+
+			if (oldBlock && oldBlock.numId != block) {
+				oldBlock.onRemove(this, { x, y, z });
+			}
 		}
 
 		return out;
 	}
 
+	/**
+	 * Sets multiple blocks at once. Changes are sent to players in batches at the end of tick,
+	 * see `flushBlockUpdates`. Neighbours aren't notified about these changes
+	 *
+	 * @param blocks List of positions and block ids
+	 * @returns Amount of changed blocks
+	 */
+	setBlocks(blocks: [number, number, number, number][]): number {
+		let changed = 0;
+
+		for (const [x, y, z, block] of blocks) {
+			if (this.getBlockId(x, y, z) != block && super.setBlockId(x, y, z, block)) {
+				this.light.update(x, y, z);
+				this.pendingBlockUpdates.set(this.getIndex(x, y, z), [x, y, z]);
+				changed++;
+			}
+		}
+
+		if (changed > 0) {
+			this.dirty = true;
+		}
+
+		return changed;
+	}
+
+	/**
+	 * Sends blocks changed by `setBlocks` to players. If more than `blockResendThreshold` blocks changed,
+	 * whole world is resent instead
+	 */
+	flushBlockUpdates() {
+		if (this.pendingBlockUpdates.size == 0) {
+			return;
+		}
+
+		if (this.pendingBlockUpdates.size > this._server.config.blockResendThreshold) {
+			this.players.forEach((p) => p._connectionHandler.sendWorld(this));
+		} else {
+			const blocks: [number, number, number, number][] = [];
+			this.pendingBlockUpdates.forEach(([x, y, z]) => blocks.push([x, y, z, this.getBlockId(x, y, z)]));
+			this.players.forEach((p) => p._connectionHandler.setBlocks(blocks));
+		}
+
+		this.pendingBlockUpdates.clear();
+	}
+
+	/**
+	 * Changes world's setting
+	 *
+	 * @param key Setting's name
+	 * @param value New value
+	 * @returns True if it was changed, false if canceled
+	 */
+	setSetting<T extends keyof WorldSettings>(key: T, value: WorldSettings[T]): boolean {
+		const result = this._server.event.WorldSettingChange._emit({ world: this, key, value, oldValue: this.settings[key] });
+
+		if (result.continue) {
+			this.settings[key] = value;
+			this.dirty = true;
+			return true;
+		}
+
+		return false;
+	}
+
+	/**
+	 * Adds region to world, replacing one with same name
+	 *
+	 * @param region Region instance
+	 */
+	addRegion(region: Region) {
+		this.regions.set(region.name, region);
+		this.dirty = true;
+	}
+
+	/**
+	 * Removes region from world
+	 *
+	 * @param name Region's name
+	 * @returns True if region existed
+	 */
+	removeRegion(name: string): boolean {
+		const out = this.regions.delete(name);
+		this.dirty = this.dirty || out;
+		return out;
+	}
+
+	/**
+	 * Returns all regions containing provided position
+	 */
+	getRegionsAt(x: number, y: number, z: number): Region[] {
+		const out: Region[] = [];
+
+		for (const region of this.regions.values()) {
+			if (region.contains(x, y, z)) {
+				out.push(region);
+			}
+		}
+
+		return out;
+	}
+
+	/**
+	 * Checks if all regions at position allow player to do action
+	 *
+	 * @param player Player instance
+	 * @param x X position
+	 * @param y Y position
+	 * @param z Z position
+	 * @param flag Checked flag
+	 */
+	checkRegionFlag(player: Player, x: number, y: number, z: number, flag: RegionFlag): boolean {
+		return this.getRegionsAt(x, y, z).every((r) => r.allows(player, flag));
+	}
+
+	/**
+	 * Checks if world reached it's player limit
+	 */
+	isFull(): boolean {
+		return this.settings.maxPlayers > 0 && this.players.size >= this.settings.maxPlayers;
+	}
+
 	save(force = false): boolean {
 		if (this.dirty || force) {
 			this._server.saveWorld(this);
@@ -205,55 +477,260 @@ export class World extends WorldView {
 		}
 	}
 
-	tickBlock(x: number, y: number, z: number) {
-		const b = this.getBlock(x, y, z);
+	/**
+	 * Schedules update of block. If block already has update scheduled, earlier one is kept
+	 *
+	 * @param delay Delay in ticks
+	 */
+	scheduleTick(x: number, y: number, z: number, delay = 1) {
+		if (!this.isInBounds(x, y, z)) {
+			return;
+		}
+
+		const index = this.getIndex(x, y, z);
+		const time = this.currentTick + BigInt(Math.max(Math.floor(delay), 1));
+		const current = this.scheduledTicks.get(index);
+
+		if (current != undefined && current <= time) {
+			return;
+		}
+
+		this.scheduledTicks.set(index, time);
+
+		const queue = this.tickQueue.get(time);
+		queue ? queue.push(index) : this.tickQueue.set(time, [index]);
+	}
+
+	/**
+	 * Checks if block has scheduled update
+	 */
+	hasScheduledTick(x: number, y: number, z: number): boolean {
+		return this.isInBounds(x, y, z) && this.scheduledTicks.has(this.getIndex(x, y, z));
+	}
+
+	/**
+	 * Calls `onNeighborChanged` of six blocks next to changed one
+	 */
+	notifyNeighbors(x: number, y: number, z: number) {
+		for (const [x2, y2, z2] of neighborOffsets) {
+			const pos = { x: x + x2, y: y + y2, z: z + z2 };
+
+			if (this.isInBounds(pos.x, pos.y, pos.z)) {
+				this.getBlock(pos.x, pos.y, pos.z)?.onNeighborChanged(this, pos, { x, y, z });
+			}
+		}
+	}
+
+	/**
+	 * Notifies neighbours about change and schedules update of changed block, if it's tickable
+	 */
+	updateNeighbors(x: number, y: number, z: number) {
+		this.notifyNeighbors(x, y, z);
 
-		if (b && b.tickable) {
-			this.blocksToUpdate.push([x, y, z, b]);
+		const block = this.getBlock(x, y, z);
+		if (block?.tickable) {
+			this.scheduleTick(x, y, z, block.tickDelay);
 		}
 	}
 
-	lazyTickBlock(x: number, y: number, z: number) {
-		const b = this.getBlock(x, y, z);
+	/**
+	 * Ignites TNT at position, which explodes after fuse runs out
+	 *
+	 * @param igniter Uuid of player, who ignited it
+	 * @param fuse Ticks before explosion
+	 * @returns False if explosions are disabled, there is no TNT or it's already ignited
+	 */
+	ignite(x: number, y: number, z: number, igniter: Nullable<string> = null, fuse = this._server.config.tntFuseTicks): boolean {
+		return this.getBlockId(x, y, z) == blockIds.tnt && this.primeTnt(x, y, z, igniter, fuse, false);
+	}
+
+	/**
+	 * Ignites TNT, that was just broken. Unlike `ignite`, it explodes even without TNT block at position
+	 *
+	 * @param igniter Uuid of player, who broke it
+	 * @param fuse Ticks before explosion
+	 * @returns False if explosions are disabled or it's already ignited
+	 */
+	igniteBroken(x: number, y: number, z: number, igniter: Nullable<string> = null, fuse = this._server.config.tntFuseTicks): boolean {
+		return this.primeTnt(x, y, z, igniter, fuse, true);
+	}
+
+	/**
+	 * Checks if TNT at position is ignited
+	 */
+	isIgnited(x: number, y: number, z: number): boolean {
+		return this.isInBounds(x, y, z) && this.primedTnt.has(this.getIndex(x, y, z));
+	}
+
+	protected primeTnt(x: number, y: number, z: number, igniter: Nullable<string>, fuse: number, broken: boolean): boolean {
+		if (!this.settings.explosions || this.settings.readOnly || !this.isInBounds(x, y, z)) {
+			return false;
+		}
+
+		const index = this.getIndex(x, y, z);
 
-		if (b && b.tickable) {
-			this.lazyBlocksToUpdate.push([x, y, z, b]);
+		if (this.primedTnt.has(index)) {
+			return false;
 		}
+
+		this.primedTnt.set(index, { tick: this.currentTick + BigInt(Math.max(fuse, 1)), igniter, broken });
+		return true;
 	}
 
-	lazyTickNeighborBlocksAndSelf(x: number, y: number, z: number) {
-		for (let x2 = -1; x2 <= 1; x2++) {
-			for (let y2 = -1; y2 <= 1; y2++) {
-				for (let z2 = -1; z2 <= 1; z2++) {
-					this.lazyTickBlock(x + x2, y + y2, z + z2);
+	/**
+	 * Destroys all breakable blocks in sphere and ignites TNT inside of it. Blocks in regions, that don't allow breaking, are skipped.
+	 * Affected blocks can be modified or explosion canceled with `WorldExplosion` event
+	 *
+	 * @param radius Radius of explosion
+	 * @param igniter Uuid of player, who caused explosion. It's used in block history
+	 * @returns False if explosions are disabled or it was canceled
+	 */
+	explode(x: number, y: number, z: number, radius = this._server.config.tntExplosionRadius, igniter: Nullable<string> = null): boolean {
+		if (!this.settings.explosions || this.settings.readOnly) {
+			return false;
+		}
+
+		[x, y, z] = roundDown(x, y, z);
+		const affected: XYZ[] = [];
+
+		for (let x2 = -radius; x2 <= radius; x2++) {
+			for (let y2 = -radius; y2 <= radius; y2++) {
+				for (let z2 = -radius; z2 <= radius; z2++) {
+					const block = this.getBlock(x + x2, y + y2, z + z2);
+
+					if (x2 * x2 + y2 * y2 + z2 * z2 > radius * radius || !block || block.numId == 0 || block.unbreakable) {
+						continue;
+					} else if (this.getRegionsAt(x + x2, y + y2, z + z2).every((r) => r.flags.break)) {
+						affected.push([x + x2, y + y2, z + z2]);
+					}
 				}
 			}
 		}
+
+		const result = this._server.event.WorldExplosion._emit({ world: this, position: [x, y, z], radius, igniter, blocks: affected });
+
+		if (!result.continue) {
+			return false;
+		}
+
+		const fuse = this._server.config.tntFuseTicks;
+		const removed: [number, number, number, number][] = [];
+		const removedBlocks: Nullable<Block>[] = [];
+		const time = Date.now();
+
+		for (const [x2, y2, z2] of result.value.blocks) {
+			const isCenter = x2 == x && y2 == y && z2 == z;
+			const oldBlock = this.getBlockId(x2, y2, z2);
+
+			// Chained TNT gets shorter fuse, so explosions don't happen all at once
+			if (!isCenter && oldBlock == blockIds.tnt) {
+				this.ignite(x2, y2, z2, igniter, Math.floor(fuse / 4 + (Math.random() * fuse) / 2));
+			} else if (oldBlock != 0) {
+				removed.push([x2, y2, z2, 0]);
+				removedBlocks.push(this.getBlock(x2, y2, z2));
+				this.history.add({ x: x2, y: y2, z: z2, oldBlock, newBlock: 0, player: igniter ?? explosionHistorySource, time });
+			}
+		}
+
+		this.setBlocks(removed);
+		removed.forEach(([x2, y2, z2], i) => {
+			this.updateNeighbors(x2, y2, z2);
+			removedBlocks[i]?.onRemove(this, { x: x2, y: y2, z: z2 });
+		});
+		return true;
+	}
+
+	/**
+	 * Explodes TNT with finished fuse. Only `explosionBudget` explosions happen per tick,
+	 * rest is delayed to next ones. TNT replaced during its fuse doesn't explode
+	 */
+	protected runExplosions(tick: bigint) {
+		if (!this.settings.explosions || this.settings.readOnly) {
+			this.primedTnt.clear();
+			return;
+		}
+
+		let budget = this._server.config.explosionBudget;
+
+		for (const [index, primed] of this.primedTnt) {
+			if (budget <= 0) {
+				break;
+			} else if (primed.tick > tick) {
+				continue;
+			}
+
+			this.primedTnt.delete(index);
+
+			const x = index % this.size[0];
+			const z = Math.floor(index / this.size[0]) % this.size[2];
+			const y = Math.floor(index / (this.size[0] * this.size[2]));
+
+			if (primed.broken || this.getBlockId(x, y, z) == blockIds.tnt) {
+				budget--;
+				this.explode(x, y, z, this._server.config.tntExplosionRadius, primed.igniter);
+			}
+		}
 	}
 
 	_tick(tick: bigint) {
-		if (this.physics == PhysicsLevel.NONE) {
-			this.blocksToUpdate = [];
-			this.lazyBlocksToUpdate = [];
+		this.currentTick = tick;
+		this.runExplosions(tick);
+
+		if (this.physics == PhysicsLevel.NONE || this.settings.readOnly) {
+			this.scheduledTicks.clear();
+			this.tickQueue.clear();
+			this.overdueTicks = [];
+			this.flushBlockUpdates();
+			return;
 		}
 
-		for (let i = 0; i < 1000; i++) {
+		for (let i = 0; i < this.settings.randomTickSpeed; i++) {
 			const x = Math.floor(Math.random() * this.size[0]);
 			const y = Math.floor(Math.random() * this.size[1]);
 			const z = Math.floor(Math.random() * this.size[2]);
-			this.tickBlock(x, y, z);
+			const block = this.getBlock(x, y, z);
+
+			if (block?.tickable) {
+				block.update(this, x, y, z, false, tick);
+			}
 		}
 
-		this.blocksToUpdate = this.blocksToUpdate.filter(([x, y, z, block]) => !block.update(this, x, y, z, false, tick));
+		this.runScheduledTicks(tick);
+		this.flushBlockUpdates();
+	}
 
-		if (tick % 20n == 0n) {
-			const b = this.lazyBlocksToUpdate.shift();
+	/**
+	 * Runs scheduled block updates. Only `scheduledTickBudget` of them are run per tick,
+	 * rest is delayed to next ones
+	 */
+	protected runScheduledTicks(tick: bigint) {
+		for (const [time, queue] of this.tickQueue) {
+			if (time <= tick) {
+				queue.forEach((index) => this.overdueTicks.push(index));
+				this.tickQueue.delete(time);
+			}
+		}
 
-			if (b) {
-				const [x, y, z, block] = b;
-				if (!block.update(this, x, y, z, true, tick)) {
-					this.lazyBlocksToUpdate.push(b);
-				}
+		const budget = this._server.config.scheduledTickBudget;
+		const toRun = this.overdueTicks.splice(0, budget);
+
+		for (const index of toRun) {
+			const time = this.scheduledTicks.get(index);
+
+			// Skips updates rescheduled to earlier tick (already run) and duplicates
+			if (time == undefined || time > tick) {
+				continue;
+			}
+
+			this.scheduledTicks.delete(index);
+
+			const x = index % this.size[0];
+			const z = Math.floor(index / this.size[0]) % this.size[2];
+			const y = Math.floor(index / (this.size[0] * this.size[2]));
+			const block = this.getBlock(x, y, z);
+
+			if (block && !block.update(this, x, y, z, true, tick)) {
+				this.scheduleTick(x, y, z, 1);
 			}
 		}
 	}
@@ -262,6 +739,10 @@ export class World extends WorldView {
 		this.players.add(player);
 		player.isInWorld = true;
 		this.players.forEach((p) => p._connectionHandler.sendSpawnPlayer(player));
+
+		if (this.settings.welcomeMessage) {
+			player.sendMessage(this.settings.welcomeMessage);
+		}
 	}
 
 	_removePlayer(player: Player) {
@@ -275,6 +756,14 @@ export class World extends WorldView {
 	}
 
 	serialize(): Uint8Array {
+		const regions: TagObject = {};
+		this.regions.forEach((r) => (regions[r.name] = r.serialize()));
+
+		const fallback = new Uint8Array(maxBlockId + 1);
+		for (let id = 0; id <= maxBlockId; id++) {
+			fallback[id] = this.getFallbackBlockId(id);
+		}
+
 		return encodeNBT('ClassicWorld', {
 			FormatVersion: new Byte(1),
 			Name: this.name,
@@ -292,8 +781,19 @@ export class World extends WorldView {
 			BlockArray: this.blockData,
 			Metadata: {
 				...this._metadata,
+				CPE: {
+					...(<TagObject>this._metadata.CPE ?? {}),
+					CustomBlocks: {
+						ExtensionVersion: new Int(1),
+						SupportLevel: new Short(1),
+						Fallback: fallback,
+					},
+					BlockDefinitions: this.blockDefinitions.serialize(),
+				},
 				Cobblestone: {
 					PhysicsLevel: new Byte(this.physics),
+					Settings: serializeSettings(this.settings),
+					Regions: regions,
 				},
 			},
 			TimeCreated: this.timeCreated,
@@ -329,6 +829,7 @@ export class World extends WorldView {
 			const metadata = <TagObject>main?.Metadata ?? {};
 
 			const fallback: Uint8Array | undefined = <Uint8Array>(<TagObject>(<TagObject>metadata.CPE)?.CustomBlocks)?.Fallback;
+			const blockDefinitions = BlockDefinitionRegistry.deserialize(<TagObject | undefined>(<TagObject>metadata.CPE)?.BlockDefinitions);
 
 			let getBlockAt = (x: number) => blocks[x];
 
@@ -338,23 +839,29 @@ export class World extends WorldView {
 				};
 			}
 
-			if (fallback != undefined) {
-				for (let x = 0; x < blocks.length; x++) {
-					blockData[x] = fallback[getBlockAt(x)] ?? 0;
-				}
-			} else {
-				for (let x = 0; x < blocks.length; x++) {
-					blockData[x] = blocks[x] ?? 0;
-				}
-			}
+			// Blocks unknown to server are replaced after world is created, as registered blocks depend on server
+			const isKnown = (id: number) => id <= maxBlockId;
+
+			for (let x = 0; x < blocks.length; x++) {
+				const id = getBlockAt(x) ?? 0;
 
-			for (let x = 0; x < blockData.length; x++) {
-				if (blockData[x] > lastBlockId) {
-					blockData[x] = 1;
+				if (isKnown(id)) {
+					blockData[x] = id;
+				} else {
+					const fallbackId = fallback?.[id];
+					blockData[x] = fallbackId != undefined && isKnown(fallbackId) ? fallbackId : 1;
 				}
 			}
 
 			const physics = (<Byte>(<TagObject>metadata?.['Cobblestone'])?.['PhysicsLevel'])?.valueOf();
+			const settings = deserializeSettings(<TagObject | undefined>(<TagObject>metadata?.['Cobblestone'])?.['Settings']);
+			const regionsData = <TagObject>(<TagObject>metadata?.['Cobblestone'])?.['Regions'] ?? {};
+			const regions: Region[] = [];
+
+			for (const [name, data] of Object.entries(regionsData)) {
+				const region = Region.deserialize(name, <TagObject>data);
+				region ? regions.push(region) : null;
+			}
 
 			return {
 				uuid: id,
@@ -376,6 +883,9 @@ export class World extends WorldView {
 
 				_metadata: metadata,
 				physics: physics ?? PhysicsLevel.NONE,
+				settings: settings,
+				regions: regions,
+				blockDefinitions: blockDefinitions,
 			};
 		} catch (_e) {
 			return null;
@@ -383,6 +893,75 @@ export class World extends WorldView {
 	}
 }
 
+function serializeSettings(settings: WorldSettings): TagObject {
+	const out: TagObject = {};
+
+	for (const [key, value] of Object.entries(settings)) {
+		out[toNbtKey(key)] = typeof value == 'boolean' ? new Byte(value ? 1 : 0) : typeof value == 'number' ? new Int(value) : value;
+	}
+
+	return out;
+}
+
+function deserializeSettings(data: TagObject | undefined): Partial<WorldSettings> {
+	const out: Holder<unknown> = {};
+
+	if (data == undefined) {
+		return out;
+	}
+
+	for (const [key, defaultValue] of Object.entries(defaultWorldSettings)) {
+		const value = <Tag | undefined>data[toNbtKey(key)];
+
+		if (value == undefined) {
+			continue;
+		}
+
+		switch (typeof defaultValue) {
+			case 'boolean':
+				out[key] = value.valueOf() != 0;
+				break;
+			case 'number':
+				out[key] = Number(value.valueOf());
+				break;
+			default:
+				out[key] = value.toString();
+		}
+	}
+
+	return out;
+}
+
+function toNbtKey(key: string): string {
+	return key[0].toUpperCase() + key.slice(1);
+}
+
+interface PrimedTnt {
+	tick: bigint;
+	/**
+	 * Uuid of player, who ignited it
+	 */
+	igniter: Nullable<string>;
+	/**
+	 * TNT was broken while igniting, so it explodes without block
+	 */
+	broken: boolean;
+}
+
+/**
+ * Used in block history for explosions without known igniter
+ */
+const explosionHistorySource = 'explosion';
+
+const neighborOffsets: XYZ[] = [
+	[1, 0, 0],
+	[-1, 0, 0],
+	[0, 1, 0],
+	[0, -1, 0],
+	[0, 0, 1],
+	[0, 0, -1],
+];
+
 function roundDown(x: number, y: number, z: number): [number, number, number] {
 	return [Math.floor(x), Math.floor(y), Math.floor(z)];
 }
@@ -418,8 +997,37 @@ export interface WorldData {
 	spawnPoint: Position;
 
 	physics: PhysicsLevel;
+
+	settings?: Partial<WorldSettings>;
+
+	regions?: Region[];
+
+	blockDefinitions?: BlockDefinition[];
 }
 
+export interface WorldSettings {
+	building: boolean;
+	/**
+	 * Server has no combat, so it's only stored for plugins (same as region's `pvp` flag)
+	 */
+	pvp: boolean;
+	randomTickSpeed: number;
+	maxPlayers: number;
+	readOnly: boolean;
+	welcomeMessage: string;
+	explosions: boolean;
+}
+
+export const defaultWorldSettings: Readonly<WorldSettings> = {
+	building: true,
+	pvp: false,
+	randomTickSpeed: 1000,
+	maxPlayers: 0,
+	readOnly: false,
+	welcomeMessage: '',
+	explosions: false,
+};
+
 export type GenerationStatusListener = (text: string, percentage: number) => void;
 
 
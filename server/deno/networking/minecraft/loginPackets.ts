@@ -34,7 +34,7 @@ loginPackets[0x00] = async (handler, data) => {
 
 		handler.switchToPlay();
 	} else {
-		handler.send(packet.disconnect({ text: "Authentication failed!" }))
+		handler.send(packet.disconnect({ text: result.reason?.replaceAll("&", "§") ?? "Authentication failed!" }))
 	}
 }
 
@@ -9,10 +9,10 @@ import * as nbt from '../../../libs/nbt/index.ts';
 import * as uuidUtils from '../../../core/uuid.ts';
 import { ChunkSection } from './chunk/chunkSection.ts';
 import { BitStorage } from './chunk/bitStorage.ts';
-import { cBlockToBlockState, barrierId, itemToCBlock, blockToItem } from './translationMap.ts';
+import { classicBlocks, cBlockToBlockState, barrierId, itemToCBlock, blockToItem } from './translationMap.ts';
 //import { blockRegistry } from './registry.ts';
 import * as vec from '../../../libs/vec.ts';
-import { blocksIdsToName } from '../../../core/world/blocks.ts';
+import { Block } from '../../../core/world/blocks.ts';
 
 export const playPackets: PacketHandler[] = [];
 
@@ -68,7 +68,7 @@ playPackets[0x1d] = (handler, data) => {
 			if (handler.player?.world.isInBounds(pos[0], pos[1], pos[2])) {
 				const oldBlock = handler.player?.world.getBlockId(pos[0], pos[1], pos[2]);
 				if (handler.player?._action_block_break(pos[0], pos[1], pos[2])) {
-					handler.send(packet.worldEvent(2001, pos, cBlockToBlockState[oldBlock], false));
+					handler.send(packet.worldEvent(2001, pos, getBlockState(handler.player.world, oldBlock), false));
 				}
 			} else {
 				handler.send(packet.setBlock(pos[0], pos[1], pos[2], barrierId));
@@ -122,12 +122,12 @@ playPackets[0x2b] = (handler, data) => {
 	if (slot <= 45 && slot >= 0) {
 		const id = data.readBool() ? data.readVarInt() : 0;
 
-		if (id != 0 && itemToCBlock[id] != null) {
+		if (id != 0 && handler.player && getItemBlock(handler.player._server, id) != null) {
 			//const count = data.readByte();
 			//const nbtData = nbt.decode(data.buffer)
 			handler.inventory[slot] = id;
 
-			handler.send(packet.setSlot(0, 0, slot, createItem(id)));
+			handler.send(packet.setSlot(0, 0, slot, createItem(handler.player._server, id)));
 		} else {
 			handler.inventory[slot] = 0;
 			handler.send(packet.setSlot(0, 0, slot, { id: 0, count: 0, present: false }));
@@ -149,7 +149,7 @@ playPackets[0x31] = (handler, data) => {
 
 	if (item != 0 && !inside) {
 		const face = directions[faceId];
-		const block = itemToCBlock[item];
+		const block = handler.player ? getItemBlock(handler.player._server, item) : null;
 		const blockPos: XYZ = [pos[0] + face[0], pos[1] + face[1], pos[2] + face[2]];
 
 		if (block != null && !(block.solid && handler.player?.checkColisionBox(blockPos, vec.add(blockPos, [1, 1, 1])))) {
@@ -236,7 +236,7 @@ export class ModernConnectionHandler implements ConnectionHandler {
 			const classicItems: number[] = [];
 
 			for (const item of blockToItem) {
-				if (item != null && itemToCBlock[item.id]?.placeable) {
+				if (item != null && getItemBlock(this._server, item.id)?.placeable) {
 					classicItems.push(item.id);
 				}
 			}
@@ -293,7 +293,7 @@ export class ModernConnectionHandler implements ConnectionHandler {
 		await sleep(1);
 		await this.sendTeleport(this._player, this._player.position, this._player.yaw, this._player.pitch);
 
-		const heightMapBits = Math.ceil(Math.log2(worldSize[1] + 2));
+		const heightMapBits = Math.ceil(Math.log2(worldSize[1] + 16 + 1));
 
 
 		let chunksSend = 0;
@@ -304,6 +304,14 @@ export class ModernConnectionHandler implements ConnectionHandler {
 			for (let cz = -1; cz < worldSize[2] / 16 + 1; cz++) {
 				const chunkSections = [];
 				const heighmap = new BitStorage(heightMapBits, 16 * 16);
+
+				for (let x = 0; x < 16; x++) {
+					for (let z = 0; z < 16; z++) {
+						// Heights are relative to bottom of dimension, columns outside of world are filled with barriers
+						const height = world.isInBounds(cx * 16 + x, 0, cz * 16 + z) ? world.light.getLightHeight(cx * 16 + x, cz * 16 + z) + 1 : worldSize[1];
+						heighmap.set(x + z * 16, height + 16);
+					}
+				}
 				for (let cy = -1; cy < worldSize[1] / 16; cy++) {
 					const section = new ChunkSection();
 					chunkSections.push(section);
@@ -312,7 +320,7 @@ export class ModernConnectionHandler implements ConnectionHandler {
 						for (let y = 0; y < 16; y++) {
 							for (let z = 0; z < 16; z++) {
 								if (world.isInBounds(cx * 16 + x, cy * 16 + y, cz * 16 + z)) {
-									section.setBlock(x, y, z, cBlockToBlockState[world.getBlockId(cx * 16 + x, cy * 16 + y, cz * 16 + z)] ?? 0);
+									section.setBlock(x, y, z, getBlockState(world, world.getBlockId(cx * 16 + x, cy * 16 + y, cz * 16 + z)));
 								} else {
 									section.setBlock(x, y, z, barrierId);
 								}
@@ -340,13 +348,33 @@ export class ModernConnectionHandler implements ConnectionHandler {
 
 					packet.writeBool(true);
 
+					// Light sections start one section below world's bottom and end one above its top
+					const skyLight: Uint8Array[] = [];
+					const skyLightSet = new BitSet(chunkSections.length + 2);
+					const emptySkyLightSet = new BitSet(chunkSections.length + 2);
 					const emptyLightSet = new BitSet(chunkSections.length + 2);
+
+					for (let i = 0; i < chunkSections.length + 2; i++) {
+						const light = createSkyLight(world, cx, i - 2, cz);
+
+						if (light) {
+							skyLightSet.set(i, true);
+							skyLight.push(light);
+						} else {
+							emptySkyLightSet.set(i, true);
+						}
+					}
+
+					packet.writeLongArray(skyLightSet.words);
 					packet.writeLongArray(emptyLightSet.words);
-					packet.writeLongArray(emptyLightSet.words);
-					packet.writeLongArray(emptyLightSet.words);
+					packet.writeLongArray(emptySkyLightSet.words);
 					packet.writeLongArray(emptyLightSet.words);
 
-					packet.writeVarInt(0);
+					packet.writeVarInt(skyLight.length);
+					for (const light of skyLight) {
+						packet.writeVarInt(light.length);
+						packet.writeByteArray(light);
+					}
 					packet.writeVarInt(0);
 
 					await this._handler.send(packet);
@@ -374,7 +402,28 @@ export class ModernConnectionHandler implements ConnectionHandler {
 	}
 
 	setBlock(x: number, y: number, z: number, block: number): void {
-		this._handler.send(packet.setBlock(x, y, z, cBlockToBlockState[block] ?? 0));
+		this._handler.send(packet.setBlock(x, y, z, getBlockState(this._player?.world, block)));
+	}
+
+	setBlocks(blocks: [number, number, number, number][]): void {
+		const sections: Map<string, bigint[]> = new Map();
+
+		for (const [x, y, z, block] of blocks) {
+			const key = `${x >> 4} ${y >> 4} ${z >> 4}`;
+			let section = sections.get(key);
+
+			if (!section) {
+				section = [];
+				sections.set(key, section);
+			}
+
+			section.push((BigInt(getBlockState(this._player?.world, block)) << 12n) | BigInt(((x & 15) << 8) | ((z & 15) << 4) | (y & 15)));
+		}
+
+		for (const [key, section] of sections) {
+			const [x, y, z] = key.split(' ').map((v) => parseInt(v));
+			this._handler.send(packet.updateSectionBlocks(x, y, z, section));
+		}
 	}
 
 	sendMessage(_player: Nullable<Player>, text: string): void {
@@ -435,6 +484,14 @@ export class ModernConnectionHandler implements ConnectionHandler {
 	getClient(): string {
 		return 'Minecraft 1.19.1';
 	}
+
+	supportsExtension(_name: string, _version?: number): boolean {
+		return false;
+	}
+
+	setOperator(_op: boolean): void {
+		// Modern clients don't need it, unbreakable blocks are checked by server
+	}
 }
 
 export const packet = {
@@ -531,6 +588,17 @@ export const packet = {
 	},
 	updateViewPos: (x: number, z: number) => new PacketWriter().writeVarInt(0x4b).writeVarInt(x).writeVarInt(z),
 	setBlock: (x: number, y: number, z: number, block: number) => new PacketWriter().writeVarInt(0x09).writePosition([x, y, z]).writeVarInt(block),
+	updateSectionBlocks: (x: number, y: number, z: number, blocks: bigint[]) => {
+		const builder = new PacketWriter()
+			.writeVarInt(0x40)
+			.writeLong((BigInt(x & 0x3fffff) << 42n) | (BigInt(z & 0x3fffff) << 20n) | BigInt(y & 0xfffff))
+			.writeBool(true)
+			.writeVarInt(blocks.length);
+
+		blocks.forEach((b) => builder.writeVarLong(b));
+
+		return builder;
+	},
 	acknowledgeBlockChange: (id: number) => new PacketWriter().writeVarInt(0x05).writeVarInt(id),
 	chatMessage: (text: Holder<unknown>) => new PacketWriter().writeVarInt(0x62).writeString(JSON.stringify(text)).writeByte(0),
 	actionbar: (text: Holder<unknown>) => new PacketWriter().writeVarInt(0x62).writeString(JSON.stringify(text)).writeByte(1),
@@ -700,6 +768,45 @@ function createDimType(world: World): nbt.TagObject {
 	};
 }
 
+/**
+ * Converts classic block id to block state, using fallback for blocks without translation.
+ * Translations belong to block instances, so ones of blocks not registered in world's server are ignored
+ */
+function getBlockState(world: Nullable<World> | undefined, block: number): number {
+	const state = !world || classicBlocks[block] == world.getBlockById(block) ? cBlockToBlockState[block] : undefined;
+	return state ?? cBlockToBlockState[world?.getFallbackBlockId(block) ?? 0] ?? 0;
+}
+
+/**
+ * Returns classic block placed by item, if it's registered in server
+ */
+function getItemBlock(server: Server, item: number): Nullable<Block> {
+	const block = itemToCBlock[item];
+	return block != null && server.blockRegistry.get(block.numId) == block ? block : null;
+}
+
+/**
+ * Creates sky light nibble array of chunk section, null if it's fully dark
+ */
+function createSkyLight(world: World, cx: number, cy: number, cz: number): Nullable<Uint8Array> {
+	const light = new Uint8Array(2048);
+	let lit = false;
+
+	for (let y = 0; y < 16; y++) {
+		for (let z = 0; z < 16; z++) {
+			for (let x = 0; x < 16; x++) {
+				if (world.isLit(cx * 16 + x, cy * 16 + y, cz * 16 + z)) {
+					const index = (y << 8) | (z << 4) | x;
+					light[index >> 1] |= 15 << ((index & 1) * 4);
+					lit = true;
+				}
+			}
+		}
+	}
+
+	return lit ? light : null;
+}
+
 function sleep(n: number) {
 	return new Promise((r) => setTimeout(r, n));
 }
@@ -717,16 +824,18 @@ function getFancyName(arg0: string) {
 	return result.charAt(0).toUpperCase() + result.slice(1);
 }
 
-function createItem(id: number): ItemStackData {
+function createItem(server: Server, id: number): ItemStackData {
+	const block = getItemBlock(server, id);
+
 	return {
 		present: true,
 		id: id,
 		count: 1,
 		nbt: {
 			display: {
-				Name: itemToCBlock[id]
-					? `{"text": "${getFancyName(blocksIdsToName[itemToCBlock[id].numId])}", "italic": false, "color":"${
-							itemToCBlock[id].placeable ? 'white' : 'gray'
+				Name: block
+					? `{"text": "${getFancyName(server.blockRegistry.getName(block.numId) ?? '')}", "italic": false, "color":"${
+							block.placeable ? 'white' : 'gray'
 					  }"}`
 					: `{"text": "INVALID", "italic": false, "color":"red"}`,
 			},
@@ -6,6 +6,7 @@ const blocks = blockMap.byName;
 const items = itemMap.byName;
 
 class Builder {
+	classicBlocks: Block[] = []
 	cBlockToBlock: BlockType[] = []
 	cBlockToBlockState: number[] = []
 	blockToCBlock: Block[] = []
@@ -17,6 +18,7 @@ class Builder {
 	constructor() {}
 
 	set(classicBlock: Block, block: BlockType, state: number, item: ItemType): Builder {
+		this.classicBlocks[classicBlock.numId] = classicBlock;
 		this.cBlockToBlock[classicBlock.numId] = block;
 		this.blockToCBlock[block.id] = classicBlock;
 		this.itemToBlock[item.id] = block;
@@ -83,7 +85,28 @@ const data = new Builder()
 
 export const barrierId = blocks.barrier.minStateId;
 
+/**
+ * Adds translation of classic block (for example registered by plugin in server's BlockRegistry).
+ * Translation is used only while this block instance is registered in player's server,
+ * other blocks are shown using translation of their fallback
+ *
+ * @param classicBlock Classic block
+ * @param block Name of modern block
+ * @param state Offset of block state
+ * @param item Name of modern item, defaults to block's name
+ * @returns False if block or item doesn't exist
+ */
+export function setBlockTranslation(classicBlock: Block, block: string, state = 0, item = block): boolean {
+	if (!blocks[block] || !items[item]) {
+		return false;
+	}
+
+	data.set(classicBlock, blocks[block], state, items[item]);
+	return true;
+}
+
 
+export const classicBlocks = data.classicBlocks
 export const cBlockToBlock = data.cBlockToBlock
 export const cBlockToBlockState = data.cBlockToBlockState
 export const blockToCBlock = data.blockToCBlock
@@ -4,7 +4,7 @@ import { IFileHelper, ILogger, Server } from '../core/server.ts';
 import { World } from '../core/world/world.ts';
 import { fs, crypto2 } from './deps.ts';
 import { Msgpack, Semver, Denoflate, Hex } from '../core/deps.ts';
-import { AuthData, AuthProvider, Nullable, Services } from '../core/types.ts';
+import { AuthData, AuthProvider, AuthResult, Nullable, Services } from '../core/types.ts';
 
 const textEncoder = new TextEncoder();
 
@@ -42,7 +42,7 @@ export class DenoServer extends Server {
 			);
 		}
 
-		[...defaultFolders, 'world/backup'].forEach((x) => {
+		[...defaultFolders, 'world/backup', 'world/history'].forEach((x) => {
 			fs.ensureDirSync(`./${x}`);
 		});
 
@@ -158,7 +158,7 @@ export class DenoServer extends Server {
 		setTimeout(() => Deno.exit(), 4000);
 	}
 
-	async authenticatePlayer(data: AuthData): Promise<{ auth: AuthData; allow: boolean }> {
+	protected async authenticate(data: AuthData): Promise<AuthResult> {
 		if (data.authenticated) {
 			return { allow: true, auth: data };
 		}
@@ -441,6 +441,9 @@ const fileHelper: IFileHelper = {
 			if (this.existWorld(name)) {
 				Deno.removeSync(`./world/${name}.cw`);
 			}
+			if (fs.existsSync(`./world/history/${name}.cbh`)) {
+				Deno.removeSync(`./world/history/${name}.cbh`);
+			}
 			return true;
 		} catch (e) {
 			logger.error(e);
@@ -495,6 +498,38 @@ const fileHelper: IFileHelper = {
 		}
 	},
 
+	saveBlockHistory(world: string, data: Uint8Array) {
+		try {
+			const compressed = Denoflate.gzip(data, 6);
+
+			if (compressed != undefined) {
+				const file = Deno.createSync(`./world/history/${world}.cbh`);
+				file.writeSync(compressed);
+				file.close();
+				return true;
+			}
+			return false;
+		} catch (e) {
+			logger.error(e);
+			return false;
+		}
+	},
+
+	getBlockHistory(world: string) {
+		try {
+			if (!fs.existsSync(`./world/history/${world}.cbh`)) {
+				return null;
+			}
+
+			const uncompressed = Denoflate.gunzip(Deno.readFileSync(`./world/history/${world}.cbh`));
+
+			return uncompressed instanceof Uint8Array ? uncompressed : null;
+		} catch (e) {
+			logger.error(e);
+			return null;
+		}
+	},
+
 	savePlayer(uuid: string, player: PlayerData) {
 		try {
 			const file = Deno.createSync(`./player/${uuid}.cpd`);
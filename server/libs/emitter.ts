@@ -23,7 +23,7 @@ export class Emitter<T> {
 	remove(callback: EventCallback<T>) {
 		const x = this.events.findIndex((e) => e.call == callback);
 		if (x != -1) {
-			this.events.splice(x);
+			this.events.splice(x, 1);
 			return true;
 		} else {
 			return false;